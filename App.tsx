@@ -3,28 +3,167 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React, {useState} from 'react';
+import React, {useEffect, useMemo, useRef, useState} from 'react';
+import {BrowsePage} from './components/BrowsePage';
+import {EditVideoPage} from './components/EditVideoPage';
+import {ErrorModal} from './components/ErrorModal';
+import {MyListPage} from './components/MyListPage';
+import {RemixComparison} from './components/RemixComparison';
 import {
   BellIcon,
-  MagnifyingGlassIcon,
+  PlusIcon,
   UserCircleIcon,
   VideoCameraIcon,
 } from './components/icons';
+import {SavingProgressPage} from './components/SavingProgressPage';
+import {SearchBox} from './components/SearchBox';
+import {SearchResultsPage} from './components/SearchResultsPage';
+import {UploadDropZone} from './components/UploadDropZone';
 import {VideoPlayer} from './components/VideoPlayer';
 import {MOCK_VIDEOS} from './constants';
-import {Video} from './types';
+import {useMediaProbe} from './hooks/useMediaProbe';
+import {useRemixJob} from './hooks/useRemixJob';
+import {useRouter} from './hooks/useRouter';
+import {useSceneIndex} from './hooks/useSceneIndex';
+import {useVideoCatalog} from './hooks/useVideoCatalog';
+import {useVideoSearch} from './hooks/useVideoSearch';
+import {useVideoUpload} from './hooks/useVideoUpload';
+import {useWatchHistory} from './hooks/useWatchHistory';
+import {useWatchlist} from './hooks/useWatchlist';
+import {BROWSE_CATEGORIES, BrowseCategory} from './services/categories';
+import {Route, routeUrl} from './services/routes';
+import {createVideoRepository} from './services/videoRepository';
+import {ACCEPTED_VIDEO_TYPES} from './services/videoUpload';
+import {exportWatchlist} from './services/watchlist';
+import {Chapter, Video} from './types';
+import {MediaMetadata} from './utils/videoMetadata';
+
+declare global {
+  interface Window {
+    /** The AI Studio host's API, present only when hosted there. */
+    aistudio?: {openSelectKey?: () => Promise<void>};
+  }
+}
+
+/** Matches listed in the search dropdown. */
+const SEARCH_SUGGESTION_COUNT = 6;
+
+const NAV_LINKS: {label: string; route: Route}[] = [
+  {label: 'Home', route: {name: 'home'}},
+  ...(Object.keys(BROWSE_CATEGORIES) as BrowseCategory[]).map(
+    (category): {label: string; route: Route} => ({
+      label: BROWSE_CATEGORIES[category].title,
+      route: {name: 'browse', category},
+    }),
+  ),
+  {label: 'My List', route: {name: 'myList'}},
+];
 
 /**
  * Main component for the Example.com app.
  * It manages the state of videos and the active video player.
  */
 export const App: React.FC = () => {
-  const [videos] = useState<Video[]>(MOCK_VIDEOS);
-  // Default to the first video for the "Home Page" experience
-  const [playingVideo, setPlayingVideo] = useState<Video | null>(MOCK_VIDEOS[0]);
+  // The seed videos are only written the first time the store is created.
+  const [repository] = useState(() => createVideoRepository(MOCK_VIDEOS));
+  const catalog = useVideoCatalog(repository);
+  const {videos} = catalog;
+  const router = useRouter();
+  const {route} = router;
+  const watchHistory = useWatchHistory();
+  const watchlist = useWatchlist();
+  const savedVideos = watchlist.ids
+    .map((id) => videos.find((v) => v.id === id))
+    .filter((v): v is Video => v !== undefined);
+  // Pages about one video name it in the URL; the home page plays the
+  // first video. Looked up in the catalog so fields filled in after
+  // playback started, such as chapters, show up.
+  const routeVideoId =
+    route.name === 'watch' || route.name === 'remix' || route.name === 'compare'
+      ? route.videoId
+      : undefined;
+  const currentVideo =
+    routeVideoId !== undefined
+      ? (videos.find((v) => v.id === routeVideoId) ?? null)
+      : (videos[0] ?? null);
+
+  const handleChaptersIndexed = (id: string, chapters: Chapter[]) => {
+    catalog.update(id, {chapters});
+  };
+  useSceneIndex(videos, handleChaptersIndexed, currentVideo?.id);
+
+  const handleMetadata = (id: string, metadata: MediaMetadata) => {
+    catalog.update(id, metadata);
+  };
+  useMediaProbe(videos, handleMetadata);
+
+  const comparedParent =
+    route.name === 'compare' && currentVideo
+      ? videos.find((v) => v.id === currentVideo.parentId)
+      : undefined;
+  const remixJob = useRemixJob();
+
+  const searchVideos = useVideoSearch(videos);
+  const [searchQuery, setSearchQuery] = useState(
+    route.name === 'search' ? route.query : '',
+  );
+  // Show the query of a results page reached with back or forward.
+  const routeQuery = route.name === 'search' ? route.query : undefined;
+  useEffect(() => {
+    if (routeQuery !== undefined) setSearchQuery(routeQuery);
+  }, [routeQuery]);
+  const searchSuggestions = useMemo(
+    () => searchVideos(searchQuery, SEARCH_SUGGESTION_COUNT),
+    [searchVideos, searchQuery, videos],
+  );
+
+  const handleSearchQueryChange = (query: string) => {
+    setSearchQuery(query);
+    // Results update as you type, so keep their URL current.
+    if (route.name === 'search') {
+      router.navigate({name: 'search', query}, {replace: true});
+    }
+  };
 
   const handlePlayVideo = (video: Video) => {
-    setPlayingVideo(video);
+    router.navigate({name: 'watch', videoId: video.id});
+  };
+
+  const handleToggleSaved = (video: Video) => watchlist.toggle(video.id);
+
+  const handleImportWatchlist = (text: string) => {
+    const {added, missing} = watchlist.importList(
+      text,
+      videos.map((v) => v.id),
+    );
+    const summary = `Added ${added} ${added === 1 ? 'video' : 'videos'}.`;
+    return missing > 0
+      ? `${summary} ${missing} not in this catalog were skipped.`
+      : summary;
+  };
+
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const videoUpload = useVideoUpload(async ({video, media}) => {
+    handlePlayVideo(await catalog.add(video, media));
+  });
+
+  const handleRemixSubmit = async (edited: Video) => {
+    const parent = currentVideo;
+    if (!parent) return;
+    router.navigate({name: 'watch', videoId: parent.id}, {replace: true});
+    const result = await remixJob.start(parent, edited.description);
+    if (!result) return;
+    try {
+      handlePlayVideo(await catalog.add(result.video, result.media));
+    } catch (err) {
+      remixJob.reportSaveFailure(err);
+    }
+  };
+
+  const handleSelectKey = async () => {
+    // Only available when hosted in AI Studio.
+    await window.aistudio?.openSelectKey?.();
+    remixJob.dismissFailure();
   };
 
   const handleClosePlayer = () => {
@@ -38,35 +177,69 @@ export const App: React.FC = () => {
       <header className="fixed top-0 w-full flex items-center justify-between px-6 py-4 bg-black/80 backdrop-blur-xl border-b border-white/5 z-50 transition-all duration-300">
         <div className="flex items-center gap-8">
           {/* Logo */}
-          <div className="flex items-center gap-2 group cursor-pointer">
+          <a
+            {...router.link({name: 'home'})}
+            className="flex items-center gap-2 group cursor-pointer">
             <div className="bg-gradient-to-br from-[#F54997] to-[#b31d62] p-2 rounded-lg shadow-lg shadow-[#F54997]/20 group-hover:shadow-[#F54997]/40 transition-all">
               <VideoCameraIcon className="w-6 h-6 text-white" />
             </div>
             <h1 className="text-xl md:text-2xl font-bold tracking-tight text-white group-hover:opacity-90 transition-opacity">
               Example<span className="text-[#F54997]">.com</span>
             </h1>
-          </div>
+          </a>
 
           {/* Desktop Nav Links */}
           <nav className="hidden md:flex items-center gap-6 text-sm font-medium text-gray-400">
-            <a href="#" className="text-white hover:text-[#F54997] transition-colors">Home</a>
-            <a href="#" className="hover:text-white transition-colors">Movies</a>
-            <a href="#" className="hover:text-white transition-colors">Series</a>
-            <a href="#" className="hover:text-white transition-colors">New & Popular</a>
+            {NAV_LINKS.map(({label, route: target}) => (
+              <a
+                key={label}
+                {...router.link(target)}
+                className={
+                  routeUrl(target) === routeUrl(route)
+                    ? 'text-white hover:text-[#F54997] transition-colors'
+                    : 'hover:text-white transition-colors'
+                }>
+                {label}
+              </a>
+            ))}
           </nav>
         </div>
 
         {/* Right Actions */}
         <div className="flex items-center gap-5">
-           <div className="hidden sm:flex items-center bg-[#1f1f1f] rounded-full px-3 py-1.5 border border-white/10 focus-within:border-[#F54997] transition-colors">
-              <MagnifyingGlassIcon className="w-4 h-4 text-gray-400" />
-              <input 
-                type="text" 
-                placeholder="Search titles, people..." 
-                className="bg-transparent border-none focus:ring-0 text-sm ml-2 w-32 lg:w-48 text-white placeholder-gray-500"
-              />
-           </div>
+           <SearchBox
+              query={searchQuery}
+              onQueryChange={handleSearchQueryChange}
+              suggestions={searchSuggestions}
+              onSelect={handlePlayVideo}
+              onShowAll={() =>
+                router.navigate(
+                  {name: 'search', query: searchQuery},
+                  {replace: route.name === 'search'},
+                )
+              }
+           />
            
+           <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={videoUpload.uploading !== null}
+              className="flex items-center gap-1.5 text-sm font-medium text-gray-300 hover:text-white disabled:opacity-50 transition-colors"
+              aria-label="Upload a video">
+              <PlusIcon className="w-5 h-5" />
+              <span className="hidden md:inline">Upload</span>
+           </button>
+           <input
+              ref={fileInputRef}
+              type="file"
+              accept={Object.keys(ACCEPTED_VIDEO_TYPES).join(',')}
+              multiple
+              hidden
+              onChange={(e) => {
+                if (e.target.files) videoUpload.upload(e.target.files);
+                e.target.value = '';
+              }}
+           />
+
            <button className="text-gray-400 hover:text-white transition-colors relative">
               <BellIcon className="w-6 h-6" />
               <span className="absolute top-0 right-0 w-2 h-2 bg-[#F54997] rounded-full"></span>
@@ -80,21 +253,122 @@ export const App: React.FC = () => {
 
       {/* Main Content - Added padding-top to account for fixed header */}
       <main className="flex-1 pt-[72px] relative">
-        {playingVideo ? (
+        {route.name === 'remix' && currentVideo ? (
+          <EditVideoPage
+            video={currentVideo}
+            onSave={handleRemixSubmit}
+            onCancel={() =>
+              router.navigate(
+                {name: 'watch', videoId: currentVideo.id},
+                {replace: true},
+              )
+            }
+          />
+        ) : route.name === 'compare' && currentVideo && comparedParent ? (
+          <RemixComparison
+            parent={comparedParent}
+            remix={currentVideo}
+            onClose={() =>
+              router.back({name: 'watch', videoId: currentVideo.id})
+            }
+          />
+        ) : route.name === 'search' && searchQuery.trim() ? (
+          <SearchResultsPage
+            query={searchQuery}
+            search={searchVideos}
+            videos={videos}
+            onPlayVideo={handlePlayVideo}
+            savedIds={watchlist.ids}
+            onToggleSaved={handleToggleSaved}
+            onClose={() => router.back({name: 'home'})}
+          />
+        ) : route.name === 'myList' ? (
+          <MyListPage
+            videos={savedVideos}
+            history={watchHistory.history}
+            onPlayVideo={handlePlayVideo}
+            onToggleSaved={handleToggleSaved}
+            onReorder={watchlist.move}
+            onExport={() => exportWatchlist(watchlist.ids, videos)}
+            onImport={handleImportWatchlist}
+            onClose={() => router.back({name: 'home'})}
+          />
+        ) : route.name === 'browse' ? (
+          <BrowsePage
+            category={route.category}
+            videos={videos}
+            history={watchHistory.history}
+            onPlayVideo={handlePlayVideo}
+            savedIds={watchlist.ids}
+            onToggleSaved={handleToggleSaved}
+            onClose={() => router.back({name: 'home'})}
+          />
+        ) : currentVideo ? (
           <VideoPlayer
-            key={playingVideo.id}
-            video={playingVideo}
+            key={currentVideo.id}
+            video={currentVideo}
             allVideos={videos}
+            startAt={route.name === 'watch' ? route.time : undefined}
+            history={watchHistory.history}
+            onProgress={watchHistory.record}
+            savedIds={watchlist.ids}
+            onToggleSaved={handleToggleSaved}
             isInline={true}
             onClose={handleClosePlayer}
             onPlay={handlePlayVideo}
+            onRemix={(video) =>
+              router.navigate({name: 'remix', videoId: video.id})
+            }
+            onCompare={(remix) =>
+              router.navigate({name: 'compare', videoId: remix.id})
+            }
+            onMetadata={handleMetadata}
           />
         ) : (
           <div className="flex items-center justify-center h-full text-gray-500">
-            Select a video to start watching
+            {catalog.loading
+              ? 'Loading your catalog...'
+              : catalog.error
+                ? `Could not load your catalog: ${catalog.error}`
+                : routeVideoId !== undefined
+                  ? 'This video is not in your catalog.'
+                  : 'Select a video to start watching'}
           </div>
         )}
       </main>
+
+      <UploadDropZone onFiles={videoUpload.upload} />
+      {videoUpload.uploading && (
+        <div
+          className="fixed bottom-6 right-6 z-50 flex items-center gap-3 bg-[#1f1f1f] border border-white/10 rounded-lg px-4 py-3 shadow-2xl text-sm text-gray-200"
+          role="status">
+          <div className="w-4 h-4 border-2 border-[#F54997] border-t-transparent rounded-full animate-spin"></div>
+          Uploading {videoUpload.uploading}...
+        </div>
+      )}
+      {videoUpload.failure && (
+        <ErrorModal
+          title="Upload Failed"
+          message={videoUpload.failure}
+          canSelectKey={false}
+          onClose={videoUpload.dismissFailure}
+          onSelectKey={videoUpload.dismissFailure}
+        />
+      )}
+      {remixJob.progress && (
+        <SavingProgressPage
+          progress={remixJob.progress}
+          onCancel={remixJob.cancel}
+        />
+      )}
+      {remixJob.failure && (
+        <ErrorModal
+          message={remixJob.failure.message}
+          canSelectKey={remixJob.failure.needsApiKey}
+          onClose={remixJob.dismissFailure}
+          onSelectKey={handleSelectKey}
+        />
+      )}
     </div>
   );
 };
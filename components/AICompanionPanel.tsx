@@ -0,0 +1,336 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, {useEffect, useState} from 'react';
+import {COMPANION_CONFIG} from '../constants';
+import {LiveCompanion} from '../hooks/useLiveCompanion';
+import {MicMode, SpeechPlaybackPolicy} from '../types';
+import {CompanionVisualizer} from './CompanionVisualizer';
+import {PaperAirplaneIcon, SparklesIcon, XMarkIcon} from './icons';
+import {TranscriptLog} from './TranscriptLog';
+
+interface AICompanionPanelProps {
+  companion: LiveCompanion;
+  videoTitle: string;
+  onClose: () => void;
+}
+
+/** Held down to talk while the mic is in push-to-talk mode. */
+const PUSH_TO_TALK_KEY = 'KeyT';
+
+const MIC_MODE_LABELS: Record<MicMode, string> = {
+  'always-on': 'Always On',
+  'push-to-talk': 'Push to Talk',
+  muted: 'Muted',
+};
+
+function isTypingTarget(target: EventTarget | null): boolean {
+  return (
+    target instanceof HTMLElement &&
+    (target.isContentEditable ||
+      ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))
+  );
+}
+
+const SPEECH_POLICY_LABELS: Record<SpeechPlaybackPolicy, string> = {
+  duck: 'Lower video volume',
+  pause: 'Pause the video',
+  none: 'Leave the video alone',
+};
+
+const Spinner: React.FC<{label: string}> = ({label}) => (
+  <div className="flex flex-col items-center gap-6 animate-pulse">
+    <div className="relative">
+      <div className="w-16 h-16 rounded-full border-t-2 border-r-2 border-[#F54997] animate-spin"></div>
+      <div className="absolute inset-0 flex items-center justify-center">
+        <SparklesIcon className="w-6 h-6 text-[#F54997]/50" />
+      </div>
+    </div>
+    <p className="text-gray-300 font-medium text-sm tracking-wide">{label}</p>
+  </div>
+);
+
+/**
+ * The sidebar panel for a Live companion session: shows the connection state,
+ * live audio levels for both speakers and the conversation transcript while
+ * live, a text box for typed questions, and controls to start a voice or text
+ * session or end it.
+ */
+export const AICompanionPanel: React.FC<AICompanionPanelProps> = ({
+  companion,
+  videoTitle,
+  onClose,
+}) => {
+  const {status, error, micActive, transcript, inputMode} = companion;
+  const [draft, setDraft] = useState('');
+  const showsMicControls = status === 'live' && inputMode === 'voice';
+  const pushToTalk = showsMicControls && companion.micMode === 'push-to-talk';
+  const {setPushToTalk} = companion;
+
+  useEffect(() => {
+    if (!pushToTalk) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== PUSH_TO_TALK_KEY || e.repeat) return;
+      if (isTypingTarget(e.target)) return;
+      e.preventDefault();
+      setPushToTalk(true);
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.code === PUSH_TO_TALK_KEY) setPushToTalk(false);
+    };
+    const release = () => setPushToTalk(false);
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', release);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', release);
+      release();
+    };
+  }, [pushToTalk]);
+  const canEndSession = status === 'live' || status === 'reconnecting';
+  const isIdle = status === 'idle' || status === 'error';
+  const showsTranscript =
+    status === 'live' || (status === 'idle' && transcript.length > 0);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    companion.sendText(draft);
+    setDraft('');
+  };
+
+  const renderBody = () => {
+    switch (status) {
+      case 'requesting-mic':
+        return <Spinner label="Waiting for Microphone..." />;
+      case 'connecting':
+        return <Spinner label="Establishing Connection..." />;
+      case 'reconnecting':
+        return (
+          <Spinner
+            label={`Reconnecting… (attempt ${companion.reconnectAttempt} of ${COMPANION_CONFIG.maxReconnectAttempts})`}
+          />
+        );
+      case 'closing':
+        return <Spinner label="Ending Session..." />;
+      case 'live':
+        return (
+          <div className="flex flex-col items-center gap-5 w-full flex-1 min-h-0">
+            <CompanionVisualizer
+              getAnalysers={companion.getAnalysers}
+              micActive={micActive}
+            />
+
+            <h4 className="text-lg font-bold text-white shrink-0">
+              {inputMode === 'text'
+                ? 'Ask Me Anything'
+                : micActive
+                  ? "I'm Listening"
+                  : companion.micMode === 'push-to-talk'
+                    ? 'Hold T to Talk'
+                    : 'Microphone Muted'}
+            </h4>
+            {transcript.length === 0 ? (
+              <div className="bg-white/5 rounded-lg p-3 border border-white/5 max-w-xs">
+                <p className="text-gray-300 text-xs leading-relaxed text-center">
+                  "I can see the video <span className="text-[#F54997]">{videoTitle}</span>. Ask me anything about the scene!"
+                </p>
+              </div>
+            ) : (
+              <TranscriptLog turns={transcript} />
+            )}
+          </div>
+        );
+      case 'error':
+        return (
+          <div className="flex flex-col items-center text-center space-y-4">
+            <div className="w-16 h-16 rounded-full bg-red-500/10 border border-red-500/30 flex items-center justify-center">
+              <SparklesIcon className="w-8 h-8 text-red-400" />
+            </div>
+            <p className="text-gray-300 font-medium">Assistant Unavailable</p>
+            {error && <p className="text-gray-500 text-xs max-w-xs">{error}</p>}
+            <div className="flex flex-wrap justify-center gap-2">
+              <button
+                onClick={() => companion.connect(inputMode)}
+                className="px-5 py-2 rounded-full bg-white/10 hover:bg-white/20 text-white text-xs font-bold uppercase tracking-wider transition-colors">
+                Try Again
+              </button>
+              {inputMode === 'voice' && (
+                <button
+                  onClick={() => companion.connect('text')}
+                  className="px-5 py-2 rounded-full bg-[#F54997]/20 hover:bg-[#F54997]/30 text-white text-xs font-bold uppercase tracking-wider transition-colors">
+                  Chat by Text Instead
+                </button>
+              )}
+            </div>
+          </div>
+        );
+      default:
+        if (transcript.length > 0) {
+          return (
+            <div className="flex flex-col gap-4 w-full flex-1 min-h-0">
+              <p className="text-gray-500 font-medium text-center text-sm shrink-0">
+                Session ended
+              </p>
+              <TranscriptLog turns={transcript} />
+            </div>
+          );
+        }
+        return (
+          <div className="flex flex-col items-center text-center space-y-4 opacity-60">
+            <div className="w-16 h-16 rounded-full bg-white/5 flex items-center justify-center">
+              <SparklesIcon className="w-8 h-8 text-gray-500" />
+            </div>
+            <p className="text-gray-500 font-medium">Assistant Offline</p>
+          </div>
+        );
+    }
+  };
+
+  return (
+    <div className="flex flex-col h-full bg-gradient-to-b from-[#1a1a1a] to-[#0a0a0a] relative overflow-hidden">
+      {/* Abstract Background Decoration */}
+      <div className="absolute top-0 right-0 w-full h-1/2 bg-[#F54997]/5 blur-3xl pointer-events-none rounded-full transform translate-x-1/4 -translate-y-1/4"></div>
+
+      <div className="flex items-center justify-between p-5 border-b border-white/5 relative z-10">
+        <div className="flex items-center gap-2.5">
+          <div className="bg-[#F54997]/20 p-1.5 rounded-md">
+            <SparklesIcon className="w-5 h-5 text-[#F54997]" />
+          </div>
+          <div>
+            <h3 className="font-bold text-white text-base">Gemini Live</h3>
+            <p className="text-[10px] text-gray-400 uppercase tracking-wider font-semibold">Video Assistant</p>
+          </div>
+        </div>
+        <button
+          onClick={onClose}
+          className="text-gray-400 hover:text-white bg-white/5 hover:bg-white/10 p-2 rounded-full transition-all"
+          aria-label="Close AI companion">
+          <XMarkIcon className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className={`flex-1 min-h-0 flex flex-col items-center p-6 space-y-10 relative z-10 ${showsTranscript ? 'justify-start' : 'justify-center'}`}>
+        {renderBody()}
+      </div>
+
+      <div className="p-5 border-t border-white/5 bg-[#0a0a0a]/50 backdrop-blur-sm z-10 space-y-3">
+        {showsMicControls && (
+          <div className="space-y-3">
+            <div
+              className="flex rounded-lg bg-white/5 p-1 border border-white/10"
+              role="radiogroup"
+              aria-label="Microphone mode">
+              {(Object.keys(MIC_MODE_LABELS) as MicMode[]).map((mode) => (
+                <button
+                  key={mode}
+                  role="radio"
+                  aria-checked={companion.micMode === mode}
+                  onClick={() => companion.setMicMode(mode)}
+                  className={`flex-1 py-1.5 rounded-md text-[11px] font-bold uppercase tracking-wider transition-colors ${companion.micMode === mode ? 'bg-[#F54997] text-white' : 'text-gray-400 hover:text-white'}`}>
+                  {MIC_MODE_LABELS[mode]}
+                </button>
+              ))}
+            </div>
+            {pushToTalk && (
+              <button
+                onPointerDown={() => setPushToTalk(true)}
+                onPointerUp={() => setPushToTalk(false)}
+                onPointerLeave={() => setPushToTalk(false)}
+                className={`w-full py-3 rounded-lg text-xs font-bold uppercase tracking-widest select-none touch-none transition-colors ${micActive ? 'bg-[#F54997] text-white' : 'bg-white/10 text-gray-300 hover:bg-white/15'}`}>
+                {micActive ? 'Listening…' : 'Hold to Talk (or hold T)'}
+              </button>
+            )}
+            {companion.micMode !== 'muted' && (
+              <label className="flex items-center gap-2 text-xs text-gray-400 cursor-pointer select-none">
+                <input
+                  type="checkbox"
+                  checked={companion.voiceActivityDetection}
+                  onChange={(e) =>
+                    companion.setVoiceActivityDetection(e.target.checked)
+                  }
+                  className="accent-[#F54997]"
+                />
+                Only send when I'm speaking
+              </label>
+            )}
+          </div>
+        )}
+        {status === 'live' && (
+          <form onSubmit={handleSubmit} className="flex items-center gap-2">
+            <input
+              type="text"
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              placeholder="Type a question about the scene..."
+              className="flex-1 min-w-0 bg-white/5 border border-white/10 focus:border-[#F54997] rounded-lg px-3 py-2.5 text-sm text-white placeholder-gray-500 focus:outline-none transition-colors"
+              aria-label="Message the AI companion"
+            />
+            <button
+              type="submit"
+              disabled={!draft.trim()}
+              className="p-2.5 rounded-lg bg-[#F54997] hover:bg-[#d4357d] disabled:bg-white/5 disabled:text-gray-600 text-white transition-colors"
+              aria-label="Send message">
+              <PaperAirplaneIcon className="w-5 h-5" />
+            </button>
+          </form>
+        )}
+        {canEndSession && (
+          <label className="flex items-center gap-2 text-xs text-gray-400 cursor-pointer select-none">
+            <input
+              type="checkbox"
+              checked={companion.speakReplies}
+              onChange={(e) => companion.setSpeakReplies(e.target.checked)}
+              className="accent-[#F54997]"
+            />
+            Speak replies aloud
+          </label>
+        )}
+        {canEndSession && companion.speakReplies && (
+          <label className="flex items-center justify-between gap-2 text-xs text-gray-400">
+            While the companion talks
+            <select
+              value={companion.speechPlaybackPolicy}
+              onChange={(e) =>
+                companion.setSpeechPlaybackPolicy(
+                  e.target.value as SpeechPlaybackPolicy,
+                )
+              }
+              className="bg-white/5 border border-white/10 rounded-md px-2 py-1 text-gray-200 focus:outline-none focus:border-[#F54997]">
+              {(Object.keys(SPEECH_POLICY_LABELS) as SpeechPlaybackPolicy[]).map(
+                (policy) => (
+                  <option key={policy} value={policy} className="bg-[#1a1a1a]">
+                    {SPEECH_POLICY_LABELS[policy]}
+                  </option>
+                ),
+              )}
+            </select>
+          </label>
+        )}
+        {isIdle ? (
+          <div className="flex gap-3">
+            <button
+              onClick={() => companion.connect('voice')}
+              className="flex-1 py-4 font-bold text-sm uppercase tracking-widest rounded-lg transition-all transform active:scale-95 bg-gradient-to-r from-[#F54997] to-[#b31d62] text-white shadow-lg">
+              Voice Chat
+            </button>
+            <button
+              onClick={() => companion.connect('text')}
+              className="flex-1 py-4 font-bold text-sm uppercase tracking-widest rounded-lg transition-all transform active:scale-95 bg-gradient-to-r from-gray-800 to-gray-700 hover:from-gray-700 hover:to-gray-600 text-white shadow-lg">
+              Text Chat
+            </button>
+          </div>
+        ) : (
+          <button
+            onClick={companion.disconnect}
+            disabled={!canEndSession}
+            className={`w-full py-4 font-bold text-sm uppercase tracking-widest rounded-lg transition-all transform active:scale-95 ${canEndSession ? 'bg-gradient-to-r from-gray-800 to-gray-700 hover:from-gray-700 hover:to-gray-600 text-white shadow-lg' : 'bg-gray-900 text-gray-600 cursor-not-allowed'}`}>
+            {canEndSession ? 'End Session' : 'Connecting...'}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,73 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, {useMemo} from 'react';
+import {
+  BROWSE_CATEGORIES,
+  BrowseCategory,
+  videosInCategory,
+} from '../services/categories';
+import {WatchHistory} from '../services/watchHistory';
+import {Video} from '../types';
+import {XMarkIcon} from './icons';
+import {VideoGrid} from './VideoGrid';
+
+interface BrowsePageProps {
+  category: BrowseCategory;
+  videos: Video[];
+  history: WatchHistory;
+  onPlayVideo: (video: Video) => void;
+  /** Ids in the viewer's "My List", marked on the cards. */
+  savedIds: string[];
+  onToggleSaved: (video: Video) => void;
+  onClose: () => void;
+}
+
+/** One of the header's browse categories, as a grid of cards. */
+export const BrowsePage: React.FC<BrowsePageProps> = ({
+  category,
+  videos,
+  history,
+  onPlayVideo,
+  savedIds,
+  onToggleSaved,
+  onClose,
+}) => {
+  const {title, description} = BROWSE_CATEGORIES[category];
+  const listed = useMemo(
+    () => videosInCategory(category, videos),
+    [category, videos],
+  );
+
+  return (
+    <div className="w-full min-h-full bg-[#0a0a0a] p-6 lg:p-10 space-y-8 animate-fade-in">
+      <header className="flex items-center justify-between border-b border-white/5 pb-4">
+        <div>
+          <h2 className="text-2xl md:text-3xl font-extrabold text-white tracking-tight">
+            {title}
+          </h2>
+          <p className="text-sm text-gray-400 mt-1">{description}</p>
+        </div>
+        <button
+          onClick={onClose}
+          className="text-white/80 hover:text-[#F54997] p-2 rounded-full bg-white/5 hover:bg-white/10 transition-colors"
+          aria-label={`Close ${title}`}>
+          <XMarkIcon className="w-6 h-6" />
+        </button>
+      </header>
+
+      {listed.length === 0 ? (
+        <p className="text-gray-500">Nothing here yet.</p>
+      ) : (
+        <VideoGrid
+          videos={listed}
+          onPlayVideo={onPlayVideo}
+          history={history}
+          savedIds={savedIds}
+          onToggleSaved={onToggleSaved}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,88 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, {useEffect, useState} from 'react';
+import {Chapter} from '../types';
+import {formatTimestamp} from '../utils/time';
+
+interface ChapterStripProps {
+  chapters: Chapter[];
+  videoRef: React.RefObject<HTMLVideoElement | null>;
+}
+
+/**
+ * A scrubber strip of chapter thumbnails, each as wide as its share of the
+ * video. Clicking a chapter seeks to its start; the chapter being played is
+ * highlighted and fills up as playback moves through it.
+ */
+export const ChapterStrip: React.FC<ChapterStripProps> = ({
+  chapters,
+  videoRef,
+}) => {
+  const [currentTime, setCurrentTime] = useState(0);
+
+  useEffect(() => {
+    const videoEl = videoRef.current;
+    if (!videoEl) return;
+    const update = () => setCurrentTime(videoEl.currentTime);
+    update();
+    videoEl.addEventListener('timeupdate', update);
+    videoEl.addEventListener('seeked', update);
+    return () => {
+      videoEl.removeEventListener('timeupdate', update);
+      videoEl.removeEventListener('seeked', update);
+    };
+  }, [videoRef]);
+
+  const seekTo = (chapter: Chapter) => {
+    const videoEl = videoRef.current;
+    if (videoEl) videoEl.currentTime = chapter.start;
+  };
+
+  return (
+    <div className="space-y-3">
+      <h3 className="text-sm font-bold uppercase tracking-widest text-gray-400">
+        Chapters
+      </h3>
+      <div className="flex gap-1.5 w-full overflow-x-auto custom-scrollbar pb-2">
+        {chapters.map((chapter) => {
+          const length = chapter.end - chapter.start;
+          const active =
+            currentTime >= chapter.start && currentTime < chapter.end;
+          const progress = Math.min(
+            1,
+            Math.max(0, (currentTime - chapter.start) / length),
+          );
+          return (
+            <button
+              key={chapter.start}
+              onClick={() => seekTo(chapter)}
+              style={{flexGrow: length}}
+              className="group basis-0 min-w-24 text-left"
+              aria-label={`Jump to ${chapter.title} at ${formatTimestamp(chapter.start)}`}>
+              <div
+                className={`relative aspect-video rounded overflow-hidden ring-1 transition-all ${active ? 'ring-[#F54997]' : 'ring-white/10 group-hover:ring-white/40'}`}>
+                <img
+                  src={chapter.thumbnail}
+                  alt=""
+                  className={`w-full h-full object-cover transition-opacity ${active ? 'opacity-100' : 'opacity-60 group-hover:opacity-100'}`}
+                />
+                <div
+                  className="absolute bottom-0 left-0 h-1 bg-[#F54997]"
+                  style={{width: `${progress * 100}%`}}></div>
+              </div>
+              <p
+                className={`mt-1.5 text-xs truncate ${active ? 'text-white' : 'text-gray-400'}`}>
+                <span className="text-gray-500 mr-1.5 tabular-nums">
+                  {formatTimestamp(chapter.start)}
+                </span>
+                {chapter.title}
+              </p>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
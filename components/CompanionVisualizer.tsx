@@ -0,0 +1,124 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, {useEffect, useRef} from 'react';
+import {CompanionAnalysers} from '../hooks/useLiveCompanion';
+import {
+  ANALYSER_FFT_SIZE,
+  measureBands,
+  measureRms,
+} from '../utils/audio';
+
+interface CompanionVisualizerProps {
+  getAnalysers: () => CompanionAnalysers;
+  micActive: boolean;
+}
+
+type Speaker = 'none' | 'user' | 'companion';
+
+const BAR_COUNT = 5;
+/** RMS above which a side counts as speaking. */
+const SPEAKING_THRESHOLD = 0.02;
+
+const SPEAKER_LABELS: Record<Speaker, string> = {
+  none: 'Quiet',
+  user: 'You are speaking',
+  companion: 'Companion is speaking',
+};
+
+/**
+ * Audio bars driven by the live microphone and companion analysers. Runs its
+ * own animation-frame loop and writes straight to the DOM, so metering never
+ * re-renders the surrounding player. The bars and caption follow whoever is
+ * currently talking.
+ */
+export const CompanionVisualizer: React.FC<CompanionVisualizerProps> = ({
+  getAnalysers,
+  micActive,
+}) => {
+  const rootRef = useRef<HTMLDivElement>(null);
+  const labelRef = useRef<HTMLParagraphElement>(null);
+  const barRefs = useRef<(HTMLDivElement | null)[]>([]);
+  const getAnalysersRef = useRef(getAnalysers);
+  getAnalysersRef.current = getAnalysers;
+
+  useEffect(() => {
+    const timeScratch = new Float32Array(ANALYSER_FFT_SIZE);
+    const freqScratch = new Uint8Array(ANALYSER_FFT_SIZE / 2);
+    let lastSpeaker: Speaker | null = null;
+    let frame = 0;
+
+    const tick = () => {
+      const {user, companion} = getAnalysersRef.current();
+      const companionLevel = companion ? measureRms(companion, timeScratch) : 0;
+      const userLevel = user ? measureRms(user, timeScratch) : 0;
+      // The companion's own voice can leak into the mic, so it wins ties.
+      const speaker: Speaker =
+        companionLevel > SPEAKING_THRESHOLD
+          ? 'companion'
+          : userLevel > SPEAKING_THRESHOLD
+            ? 'user'
+            : 'none';
+      const analyser =
+        speaker === 'companion' ? companion : speaker === 'user' ? user : null;
+      const bands = analyser
+        ? measureBands(analyser, freqScratch, BAR_COUNT)
+        : null;
+
+      barRefs.current.forEach((bar, i) => {
+        if (!bar) return;
+        const level = bands ? bands[i] : 0;
+        bar.style.height = `${Math.max(15, level * 100)}%`;
+        bar.style.opacity = level > 0 ? '1' : '0.6';
+      });
+
+      if (speaker !== lastSpeaker) {
+        lastSpeaker = speaker;
+        if (rootRef.current) rootRef.current.dataset.speaker = speaker;
+        if (labelRef.current) {
+          labelRef.current.textContent = SPEAKER_LABELS[speaker];
+        }
+      }
+      frame = requestAnimationFrame(tick);
+    };
+
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, []);
+
+  return (
+    <div
+      ref={rootRef}
+      data-speaker="none"
+      className="group flex flex-col items-center gap-3 shrink-0">
+      <div className={`relative w-28 h-28 rounded-full flex items-center justify-center transition-all duration-500 ${micActive ? 'bg-gradient-to-tr from-[#F54997]/20 to-purple-500/10 shadow-[0_0_50px_rgba(245,73,151,0.2)]' : 'bg-white/5'}`}>
+        {/* Ripple Effects */}
+        {micActive && (
+          <>
+            <div className="absolute inset-0 rounded-full border border-[#F54997]/30 animate-[ping_2s_cubic-bezier(0,0,0.2,1)_infinite]"></div>
+            <div className="absolute inset-4 rounded-full border border-[#F54997]/20 animate-[ping_2s_cubic-bezier(0,0,0.2,1)_infinite] animation-delay-500"></div>
+          </>
+        )}
+
+        {/* Audio Bars */}
+        <div className="flex items-end gap-1.5 h-12 z-10">
+          {[...Array(BAR_COUNT)].map((_, i) => (
+            <div
+              key={i}
+              ref={(el) => {
+                barRefs.current[i] = el;
+              }}
+              className="w-2.5 rounded-full bg-gradient-to-t from-[#F54997] to-purple-400 shadow-[0_0_10px_rgba(245,73,151,0.5)] group-data-[speaker=user]:from-gray-300 group-data-[speaker=user]:to-white group-data-[speaker=user]:shadow-[0_0_10px_rgba(255,255,255,0.4)] transition-[height] duration-75 ease-out"
+              style={{height: '15%', opacity: 0.6}}></div>
+          ))}
+        </div>
+      </div>
+      <p
+        ref={labelRef}
+        className="text-[10px] uppercase tracking-widest font-semibold text-gray-500 group-data-[speaker=companion]:text-[#F54997] group-data-[speaker=user]:text-white">
+        {SPEAKER_LABELS.none}
+      </p>
+    </div>
+  );
+};
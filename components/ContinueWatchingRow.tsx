@@ -0,0 +1,49 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import {WatchHistory} from '../services/watchHistory';
+import {Video} from '../types';
+import {VideoCard} from './VideoCard';
+
+interface ContinueWatchingRowProps {
+  /** Videos to show, most recently watched first. */
+  videos: Video[];
+  history: WatchHistory;
+  onPlay: (video: Video) => void;
+  /** Ids in the viewer's "My List", marked on the cards. */
+  savedIds?: string[];
+  onToggleSaved?: (video: Video) => void;
+}
+
+/**
+ * A scrolling row of the videos the viewer started but didn't finish, with
+ * how far they got.
+ */
+export const ContinueWatchingRow: React.FC<ContinueWatchingRowProps> = ({
+  videos,
+  history,
+  onPlay,
+  savedIds = [],
+  onToggleSaved,
+}) => (
+  <section className="space-y-4">
+    <h3 className="font-bold text-white text-lg tracking-tight">
+      Continue Watching
+    </h3>
+    <div className="flex gap-4 overflow-x-auto custom-scrollbar pb-2">
+      {videos.map((video) => (
+        <div key={video.id} className="w-56 shrink-0">
+          <VideoCard
+            video={video}
+            onPlay={onPlay}
+            progress={history[video.id]}
+            saved={savedIds.includes(video.id)}
+            onToggleSaved={onToggleSaved}
+          />
+        </div>
+      ))}
+    </div>
+  </section>
+);
@@ -3,8 +3,10 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React, {useState} from 'react';
+import React, {useMemo, useState} from 'react';
 import {Video} from '../types';
+import {MAX_PROMPT_LENGTH, validatePrompt} from '../utils/promptStructure';
+import {PromptEditor} from './PromptEditor';
 
 interface EditVideoPageProps {
   video: Video;
@@ -12,9 +14,12 @@ interface EditVideoPageProps {
   onCancel: () => void;
 }
 
+type EditorMode = 'structured' | 'text';
+
 /**
  * A page that allows the user to edit the description of a video.
- * It provides input field for the description and buttons to save or cancel the changes.
+ * The prompt can be edited section by section or as plain text, and is
+ * validated before it can be submitted.
  */
 export const EditVideoPage: React.FC<EditVideoPageProps> = ({
   video,
@@ -22,11 +27,18 @@ export const EditVideoPage: React.FC<EditVideoPageProps> = ({
   onCancel,
 }) => {
   const [description, setDescription] = useState(video.description);
+  const [mode, setMode] = useState<EditorMode>('structured');
+  const issues = useMemo(() => validatePrompt(description), [description]);
+  const hasErrors = issues.some((issue) => issue.severity === 'error');
 
   const handleSave = () => {
-    onSave({...video, description});
+    if (hasErrors) return;
+    onSave({...video, description: description.trim()});
   };
 
+  const modeButtonClass = (m: EditorMode) =>
+    `px-3 py-1 text-xs font-bold uppercase tracking-wider transition-colors ${mode === m ? 'bg-[#F54997] text-white' : 'text-gray-400 hover:text-white'}`;
+
   return (
     <div className="min-h-screen bg-[#121212] text-gray-100 font-sans flex flex-col items-center justify-center p-4 animate-fade-in">
       <div className="w-full max-w-3xl bg-[#1f1f1f] p-8 md:p-12 shadow-2xl border border-gray-800">
@@ -39,19 +51,63 @@ export const EditVideoPage: React.FC<EditVideoPageProps> = ({
 
         <main>
           <div className="mb-8">
-            <label
-              htmlFor="description"
-              className="block text-sm font-bold text-[#F54997] mb-3 uppercase tracking-wider">
-              Prompt
-            </label>
-            <textarea
-              id="description"
-              rows={10}
-              className="w-full bg-[#121212] border border-gray-700 p-4 text-gray-200 focus:ring-2 focus:ring-[#F54997] focus:border-transparent transition-all duration-200 font-mono text-sm leading-relaxed"
-              value={description}
-              onChange={(e) => setDescription(e.target.value)}
-              aria-label={`Edit description for the video`}
-            />
+            <div className="flex items-center justify-between mb-3">
+              <label
+                htmlFor="description"
+                className="block text-sm font-bold text-[#F54997] uppercase tracking-wider">
+                Prompt
+              </label>
+              <div
+                className="flex border border-gray-700"
+                role="group"
+                aria-label="Editor mode">
+                <button
+                  type="button"
+                  onClick={() => setMode('structured')}
+                  className={modeButtonClass('structured')}
+                  aria-pressed={mode === 'structured'}>
+                  Structured
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setMode('text')}
+                  className={modeButtonClass('text')}
+                  aria-pressed={mode === 'text'}>
+                  Plain Text
+                </button>
+              </div>
+            </div>
+            {mode === 'structured' ? (
+              <PromptEditor value={description} onChange={setDescription} />
+            ) : (
+              <textarea
+                id="description"
+                rows={10}
+                className="w-full bg-[#121212] border border-gray-700 p-4 text-gray-200 focus:ring-2 focus:ring-[#F54997] focus:border-transparent transition-all duration-200 font-mono text-sm leading-relaxed"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                aria-label={`Edit description for the video`}
+              />
+            )}
+            <p
+              className={`text-xs mt-2 text-right tabular-nums ${description.trim().length > MAX_PROMPT_LENGTH ? 'text-red-400' : 'text-gray-500'}`}>
+              {description.trim().length} / {MAX_PROMPT_LENGTH}
+            </p>
+            {issues.length > 0 && (
+              <ul className="mt-3 space-y-1 text-sm" aria-live="polite">
+                {issues.map((issue) => (
+                  <li
+                    key={issue.message}
+                    className={
+                      issue.severity === 'error'
+                        ? 'text-red-400'
+                        : 'text-yellow-400/80'
+                    }>
+                    {issue.message}
+                  </li>
+                ))}
+              </ul>
+            )}
           </div>
         </main>
 
@@ -63,7 +119,8 @@ export const EditVideoPage: React.FC<EditVideoPageProps> = ({
           </button>
           <button
             onClick={handleSave}
-            className="px-8 py-3 bg-[#F54997] hover:bg-[#d4357d] text-white font-bold transition-colors uppercase tracking-wide text-sm shadow-lg hover:shadow-pink-500/20">
+            disabled={hasErrors}
+            className="px-8 py-3 bg-[#F54997] hover:bg-[#d4357d] disabled:opacity-40 disabled:cursor-not-allowed text-white font-bold transition-colors uppercase tracking-wide text-sm shadow-lg hover:shadow-pink-500/20">
             Generate New Video
           </button>
         </footer>
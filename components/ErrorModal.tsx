@@ -7,9 +7,13 @@ import React from 'react';
 import {XMarkIcon} from './icons';
 
 interface ErrorModalProps {
+  /** Heading of the modal; defaults to "Generation Failed". */
+  title?: string;
   message: string[];
   onClose: () => void;
   onSelectKey: () => void;
+  /** Whether to offer selecting an API key; on by default. */
+  canSelectKey?: boolean;
 }
 
 /**
@@ -17,9 +21,11 @@ interface ErrorModalProps {
  * It includes a title, the error message, a close button, and a visual error icon.
  */
 export const ErrorModal: React.FC<ErrorModalProps> = ({
+  title = 'Generation Failed',
   message,
   onClose,
   onSelectKey,
+  canSelectKey = true,
 }) => {
   return (
     <div
@@ -56,7 +62,7 @@ export const ErrorModal: React.FC<ErrorModalProps> = ({
         <h2
           id="error-modal-title"
           className="text-2xl font-bold text-white mb-4 tracking-tight">
-          Generation Failed
+          {title}
         </h2>
         <div className="space-y-2 mb-8">
             {message.map((m, i) => (
@@ -65,11 +71,13 @@ export const ErrorModal: React.FC<ErrorModalProps> = ({
         </div>
         
         <div className="flex justify-center gap-4 flex-col sm:flex-row">
-          <button
-            onClick={onSelectKey}
-            className="px-6 py-3 bg-[#F54997] hover:bg-[#d4357d] text-white font-bold transition-colors uppercase text-sm tracking-wide w-full sm:w-auto">
-            Add API Key
-          </button>
+          {canSelectKey && (
+            <button
+              onClick={onSelectKey}
+              className="px-6 py-3 bg-[#F54997] hover:bg-[#d4357d] text-white font-bold transition-colors uppercase text-sm tracking-wide w-full sm:w-auto">
+              Add API Key
+            </button>
+          )}
           <button
             onClick={onClose}
             className="px-6 py-3 bg-gray-700 hover:bg-gray-600 text-white font-bold transition-colors uppercase text-sm tracking-wide w-full sm:w-auto">
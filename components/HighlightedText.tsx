@@ -0,0 +1,27 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import {TextPart} from '../services/searchIndex';
+
+interface HighlightedTextProps {
+  parts: TextPart[];
+}
+
+/**
+ * Renders text with the parts that matched a search marked.
+ */
+export const HighlightedText: React.FC<HighlightedTextProps> = ({parts}) => (
+  <>
+    {parts.map((part, i) =>
+      part.match ? (
+        <mark key={i} className="bg-transparent text-[#F54997] font-semibold">
+          {part.text}
+        </mark>
+      ) : (
+        <React.Fragment key={i}>{part.text}</React.Fragment>
+      ),
+    )}
+  </>
+);
@@ -0,0 +1,138 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, {useRef, useState} from 'react';
+import {WatchHistory} from '../services/watchHistory';
+import {Video} from '../types';
+import {ArrowDownTrayIcon, ArrowUpTrayIcon, XMarkIcon} from './icons';
+import {VideoGrid} from './VideoGrid';
+
+interface MyListPageProps {
+  /** The saved videos, in the viewer's order. */
+  videos: Video[];
+  history: WatchHistory;
+  onPlayVideo: (video: Video) => void;
+  onToggleSaved: (video: Video) => void;
+  onReorder: (videoId: string, targetId: string) => void;
+  /** Returns the list as an exported JSON file. */
+  onExport: () => string;
+  /**
+   * Adds the videos of an exported list and describes the outcome. Throws
+   * if the file is not a watchlist.
+   */
+  onImport: (text: string) => string;
+  onClose: () => void;
+}
+
+const actionButtonClass =
+  'flex items-center gap-2 bg-white/10 hover:bg-white/20 text-white px-4 py-2 rounded font-bold text-sm transition-colors border border-white/5';
+
+/**
+ * The viewer's saved videos, which can be reordered by dragging, and
+ * exported to or imported from a JSON file.
+ */
+export const MyListPage: React.FC<MyListPageProps> = ({
+  videos,
+  history,
+  onPlayVideo,
+  onToggleSaved,
+  onReorder,
+  onExport,
+  onImport,
+  onClose,
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [status, setStatus] = useState<string | null>(null);
+
+  const handleExport = () => {
+    const blob = new Blob([onExport()], {type: 'application/json'});
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'my-list.json';
+    link.click();
+    // Some browsers start the download after the click handler returns.
+    setTimeout(() => URL.revokeObjectURL(url));
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      setStatus(onImport(await file.text()));
+    } catch (err) {
+      setStatus(
+        `Could not import ${file.name}: ${err instanceof Error ? err.message : String(err)}`,
+      );
+    }
+  };
+
+  return (
+    <div className="w-full min-h-full bg-[#0a0a0a] p-6 lg:p-10 space-y-8 animate-fade-in">
+      <header className="flex flex-wrap items-center justify-between gap-4 border-b border-white/5 pb-4">
+        <div>
+          <h2 className="text-2xl md:text-3xl font-extrabold text-white tracking-tight">
+            My List
+          </h2>
+          <p className="text-sm text-gray-400 mt-1">
+            {videos.length} {videos.length === 1 ? 'video' : 'videos'}
+            {videos.length > 1 && ' · Drag to reorder'}
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          <button
+            onClick={handleExport}
+            disabled={videos.length === 0}
+            className={`${actionButtonClass} disabled:opacity-50`}>
+            <ArrowDownTrayIcon className="w-5 h-5" />
+            <span>Export</span>
+          </button>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className={actionButtonClass}>
+            <ArrowUpTrayIcon className="w-5 h-5" />
+            <span>Import</span>
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            hidden
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleImport(file);
+              e.target.value = '';
+            }}
+          />
+          <button
+            onClick={onClose}
+            className="text-white/80 hover:text-[#F54997] p-2 rounded-full bg-white/5 hover:bg-white/10 transition-colors"
+            aria-label="Close My List">
+            <XMarkIcon className="w-6 h-6" />
+          </button>
+        </div>
+      </header>
+
+      {status && (
+        <p className="text-sm text-gray-300" role="status">
+          {status}
+        </p>
+      )}
+
+      {videos.length === 0 ? (
+        <p className="text-gray-500">
+          Nothing saved yet. Use <strong>My List</strong> under a video, or the
+          + on a video card, to save it for later.
+        </p>
+      ) : (
+        <VideoGrid
+          videos={videos}
+          onPlayVideo={onPlayVideo}
+          history={history}
+          savedIds={videos.map((v) => v.id)}
+          onToggleSaved={onToggleSaved}
+          onReorder={onReorder}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,159 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, {useEffect, useState} from 'react';
+import {CAMERA_PRESETS, SOUND_PRESETS, STYLE_PRESETS} from '../constants';
+import {
+  addSegment,
+  buildPrompt,
+  parsePrompt,
+  PromptSection,
+  StructuredPrompt,
+} from '../utils/promptStructure';
+import {PlusIcon, XMarkIcon} from './icons';
+
+interface PromptEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+}
+
+interface SectionInfo {
+  section: PromptSection;
+  label: string;
+  /** Ready-made sentences offered for the section. */
+  presets?: string[];
+}
+
+const SECTIONS: SectionInfo[] = [
+  {section: 'setting', label: 'Setting'},
+  {section: 'action', label: 'Action'},
+  {section: 'camera', label: 'Camera', presets: CAMERA_PRESETS},
+  {section: 'dialogue', label: 'Dialogue'},
+  {section: 'sound', label: 'Sound & Music', presets: SOUND_PRESETS},
+];
+
+const chipClass =
+  'px-2.5 py-1 text-xs rounded-full border border-gray-700 text-gray-300 hover:border-[#F54997] hover:text-white transition-colors';
+
+/**
+ * Edits a prompt as its parts: a style prefix and the sentences describing
+ * the setting, action, camera, dialogue and sound, each with suggestions.
+ * Sentences keep their place in the prompt, so an untouched prompt is
+ * rebuilt as it was.
+ */
+export const PromptEditor: React.FC<PromptEditorProps> = ({
+  value,
+  onChange,
+}) => {
+  const [prompt, setPrompt] = useState<StructuredPrompt>(() =>
+    parsePrompt(value),
+  );
+
+  // Re-parse when the text was changed elsewhere, e.g. in plain text mode.
+  useEffect(() => {
+    if (value !== buildPrompt(prompt)) setPrompt(parsePrompt(value));
+  }, [value]);
+
+  const update = (next: StructuredPrompt) => {
+    setPrompt(next);
+    onChange(buildPrompt(next));
+  };
+
+  const setSegmentText = (id: string, text: string) =>
+    update({
+      ...prompt,
+      segments: prompt.segments.map((s) => (s.id === id ? {...s, text} : s)),
+    });
+
+  const removeSegment = (id: string) =>
+    update({...prompt, segments: prompt.segments.filter((s) => s.id !== id)});
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <label
+          htmlFor="prompt-style"
+          className="block text-xs font-bold text-gray-400 mb-2 uppercase tracking-wider">
+          Style
+        </label>
+        <input
+          id="prompt-style"
+          type="text"
+          value={prompt.style}
+          onChange={(e) => update({...prompt, style: e.target.value})}
+          placeholder="e.g. Claymation (Stop Motion)"
+          className="w-full bg-[#121212] border border-gray-700 px-4 py-2 text-gray-200 focus:ring-2 focus:ring-[#F54997] focus:border-transparent text-sm"
+        />
+        <div className="flex flex-wrap gap-2 mt-2">
+          {STYLE_PRESETS.map((style) => (
+            <button
+              key={style}
+              type="button"
+              onClick={() => update({...prompt, style})}
+              className={chipClass}>
+              {style}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {SECTIONS.map(({section, label, presets}) => {
+        const segments = prompt.segments.filter((s) => s.section === section);
+        return (
+          <div key={section}>
+            <div className="flex items-center justify-between mb-2">
+              <p className="text-xs font-bold text-gray-400 uppercase tracking-wider">
+                {label}
+              </p>
+              <button
+                type="button"
+                onClick={() => update(addSegment(prompt, section))}
+                className="flex items-center gap-1 text-xs text-gray-400 hover:text-[#F54997] transition-colors"
+                aria-label={`Add a ${label.toLowerCase()} sentence`}>
+                <PlusIcon className="w-4 h-4" />
+                Add
+              </button>
+            </div>
+            <div className="space-y-2">
+              {segments.map((segment) => (
+                <div key={segment.id} className="flex gap-2 items-start">
+                  <textarea
+                    rows={2}
+                    value={segment.text}
+                    onChange={(e) => setSegmentText(segment.id, e.target.value)}
+                    className="flex-1 bg-[#121212] border border-gray-700 px-3 py-2 text-gray-200 focus:ring-2 focus:ring-[#F54997] focus:border-transparent text-sm leading-relaxed"
+                    aria-label={`${label} sentence`}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => removeSegment(segment.id)}
+                    className="p-1.5 text-gray-500 hover:text-white transition-colors"
+                    aria-label={`Remove ${label.toLowerCase()} sentence`}>
+                    <XMarkIcon className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+              {segments.length === 0 && (
+                <p className="text-xs text-gray-600 italic">None yet.</p>
+              )}
+            </div>
+            {presets && (
+              <div className="flex flex-wrap gap-2 mt-2">
+                {presets.map((preset) => (
+                  <button
+                    key={preset}
+                    type="button"
+                    onClick={() => update(addSegment(prompt, section, preset))}
+                    className={chipClass}>
+                    {preset}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,132 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, {useMemo, useRef} from 'react';
+import {useSyncedVideos} from '../hooks/useSyncedVideos';
+import {Video} from '../types';
+import {diffWords} from '../utils/wordDiff';
+import {XMarkIcon} from './icons';
+
+interface RemixComparisonProps {
+  parent: Video;
+  remix: Video;
+  onClose: () => void;
+}
+
+const DIFF_STYLES = {
+  same: 'text-gray-300',
+  added: 'bg-green-500/15 text-green-300 rounded-sm',
+  removed: 'bg-red-500/15 text-red-300 line-through rounded-sm',
+};
+
+/**
+ * Plays a remix next to the video it came from, kept in sync, above a
+ * word-level diff of the two prompts and the settings the remix was
+ * generated with. Either player's controls drive both.
+ */
+export const RemixComparison: React.FC<RemixComparisonProps> = ({
+  parent,
+  remix,
+  onClose,
+}) => {
+  const parentRef = useRef<HTMLVideoElement>(null);
+  const remixRef = useRef<HTMLVideoElement>(null);
+  useSyncedVideos(remixRef, parentRef);
+
+  const originalPrompt = remix.originalPrompt ?? parent.description;
+  const parts = useMemo(
+    () => diffWords(originalPrompt, remix.description),
+    [originalPrompt, remix.description],
+  );
+  const countWords = (type: 'added' | 'removed') =>
+    parts
+      .filter((p) => p.type === type)
+      .reduce((sum, p) => sum + p.text.trim().split(/\s+/).length, 0);
+  const settings = remix.generationSettings;
+
+  const renderPlayer = (
+    label: string,
+    video: Video,
+    ref: React.RefObject<HTMLVideoElement | null>,
+  ) => (
+    <div className="flex-1 min-w-0 space-y-3">
+      <p className="text-[10px] font-bold uppercase tracking-widest text-[#F54997]">
+        {label}
+      </p>
+      <div className="w-full bg-black aspect-video rounded-lg overflow-hidden shadow-2xl">
+        <video
+          ref={ref}
+          className="w-full h-full object-contain"
+          src={video.videoUrl}
+          controls
+          autoPlay
+          muted
+          playsInline
+          aria-label={video.title}
+        />
+      </div>
+      <h3 className="font-bold text-white text-lg leading-snug">
+        {video.title}
+      </h3>
+    </div>
+  );
+
+  return (
+    <div className="w-full min-h-full bg-[#0a0a0a] p-6 lg:p-10 space-y-8 animate-fade-in">
+      <header className="flex items-center justify-between border-b border-white/5 pb-4">
+        <h2 className="text-2xl md:text-3xl font-extrabold text-white tracking-tight">
+          Compare Remix
+        </h2>
+        <button
+          onClick={onClose}
+          className="text-white/80 hover:text-[#F54997] p-2 rounded-full bg-white/5 hover:bg-white/10 transition-colors"
+          aria-label="Close comparison">
+          <XMarkIcon className="w-6 h-6" />
+        </button>
+      </header>
+
+      <div className="flex flex-col md:flex-row gap-6">
+        {renderPlayer('Original', parent, parentRef)}
+        {renderPlayer('Remix', remix, remixRef)}
+      </div>
+
+      <section className="space-y-3">
+        <div className="flex items-baseline justify-between gap-4">
+          <h3 className="text-sm font-bold uppercase tracking-widest text-gray-400">
+            Prompt Changes
+          </h3>
+          <p className="text-xs text-gray-500 tabular-nums">
+            <span className="text-green-400">+{countWords('added')}</span>{' '}
+            <span className="text-red-400">−{countWords('removed')}</span> words
+          </p>
+        </div>
+        <p className="bg-[#121212] border border-white/5 rounded-lg p-5 font-mono text-sm leading-relaxed whitespace-pre-wrap">
+          {parts.map((part, i) => (
+            <span key={i} className={DIFF_STYLES[part.type]}>
+              {part.text}
+            </span>
+          ))}
+        </p>
+      </section>
+
+      {settings && (
+        <section className="space-y-3">
+          <h3 className="text-sm font-bold uppercase tracking-widest text-gray-400">
+            Generation Settings
+          </h3>
+          <dl className="grid grid-cols-[auto_1fr] gap-x-6 gap-y-1 text-sm">
+            <dt className="text-gray-500">Model</dt>
+            <dd className="text-gray-200 font-mono">{settings.model}</dd>
+            <dt className="text-gray-500">Aspect ratio</dt>
+            <dd className="text-gray-200">{settings.aspectRatio}</dd>
+            <dt className="text-gray-500">Generated</dt>
+            <dd className="text-gray-200">
+              {new Date(settings.generatedAt).toLocaleString()}
+            </dd>
+          </dl>
+        </section>
+      )}
+    </div>
+  );
+};
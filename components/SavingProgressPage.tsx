@@ -3,12 +3,29 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import React from 'react';
+import {GenerationProgress} from '../services/videoGenerator';
+import {formatTimestamp} from '../utils/time';
+
+interface SavingProgressPageProps {
+  progress: GenerationProgress;
+  onCancel: () => void;
+}
+
+const STAGE_LABELS: Record<GenerationProgress['stage'], string> = {
+  submitting: 'Submitting your prompt...',
+  generating: 'Generating video...',
+  downloading: 'Downloading your remix...',
+};
 
 /**
- * A fullscreen overlay that displays a loading animation and text indicating that
- * a video remix is being created.
+ * A fullscreen overlay that shows the progress of a running remix job: the
+ * current stage, an estimated completion bar and the time elapsed so far.
  */
-export const SavingProgressPage: React.FC = () => {
+export const SavingProgressPage: React.FC<SavingProgressPageProps> = ({
+  progress,
+  onCancel,
+}) => {
+  const percent = Math.round(progress.fraction * 100);
   return (
     <div
       className="fixed inset-0 bg-gray-900 flex flex-col items-center justify-center z-50 animate-fade-in"
@@ -18,9 +35,25 @@ export const SavingProgressPage: React.FC = () => {
       <h2 className="text-2xl font-bold text-white mt-8">
         Creating your remix...
       </h2>
-      <p className="text-gray-400 mt-2">
-        Please wait while we bring your vision to life.
+      <p className="text-gray-400 mt-2">{STAGE_LABELS[progress.stage]}</p>
+      <div
+        className="w-72 h-2 bg-white/10 rounded-full overflow-hidden mt-6"
+        role="progressbar"
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={percent}>
+        <div
+          className="h-full bg-gradient-to-r from-purple-500 to-[#F54997] transition-[width] duration-500"
+          style={{width: `${percent}%`}}></div>
+      </div>
+      <p className="text-xs text-gray-500 mt-2 tabular-nums">
+        {percent}% · {formatTimestamp(progress.elapsedMs / 1000)} elapsed
       </p>
+      <button
+        onClick={onCancel}
+        className="mt-8 px-6 py-2 bg-transparent hover:bg-gray-800 text-gray-300 font-bold transition-colors border border-gray-700 uppercase tracking-wide text-xs">
+        Cancel
+      </button>
     </div>
   );
 };
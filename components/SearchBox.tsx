@@ -0,0 +1,148 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, {useState} from 'react';
+import {SearchResults} from '../services/searchIndex';
+import {Video} from '../types';
+import {HighlightedText} from './HighlightedText';
+import {MagnifyingGlassIcon, XMarkIcon} from './icons';
+
+interface SearchBoxProps {
+  query: string;
+  onQueryChange: (query: string) => void;
+  /** The best matches for `query`, shown in the dropdown. */
+  suggestions: SearchResults;
+  onSelect: (video: Video) => void;
+  /** Opens the full results for `query`. */
+  onShowAll: () => void;
+}
+
+/**
+ * The header search field, with a dropdown of the best matches as you type.
+ * Arrow keys move through the matches; Enter plays the selected one or, with
+ * none selected, opens the full results.
+ */
+export const SearchBox: React.FC<SearchBoxProps> = ({
+  query,
+  onQueryChange,
+  suggestions,
+  onSelect,
+  onShowAll,
+}) => {
+  const [open, setOpen] = useState(false);
+  const [active, setActive] = useState(-1);
+  const {results, total} = suggestions;
+  const showDropdown = open && query.trim() !== '';
+
+  const choose = (video: Video) => {
+    setOpen(false);
+    onSelect(video);
+  };
+
+  const showAll = () => {
+    setOpen(false);
+    onShowAll();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      setOpen(true);
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setActive((i) => Math.max(-1, Math.min(results.length - 1, i + step)));
+    } else if (e.key === 'Enter') {
+      if (active >= 0 && results[active]) choose(results[active].video);
+      else if (query.trim()) showAll();
+    } else if (e.key === 'Escape') {
+      setOpen(false);
+      e.currentTarget.blur();
+    }
+  };
+
+  return (
+    <div className="relative hidden sm:block">
+      <div className="flex items-center bg-[#1f1f1f] rounded-full px-3 py-1.5 border border-white/10 focus-within:border-[#F54997] transition-colors">
+        <MagnifyingGlassIcon className="w-4 h-4 text-gray-400" />
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => {
+            onQueryChange(e.target.value);
+            setActive(-1);
+            setOpen(true);
+          }}
+          onFocus={() => setOpen(true)}
+          onBlur={() => setOpen(false)}
+          onKeyDown={handleKeyDown}
+          placeholder="Search titles, people..."
+          className="bg-transparent border-none focus:ring-0 focus:outline-none text-sm ml-2 w-32 lg:w-48 text-white placeholder-gray-500 [&::-webkit-search-cancel-button]:hidden"
+          role="combobox"
+          aria-expanded={showDropdown}
+          aria-controls="search-suggestions"
+          aria-label="Search videos"
+        />
+        {query && (
+          <button
+            onClick={() => onQueryChange('')}
+            className="text-gray-500 hover:text-white transition-colors"
+            aria-label="Clear search">
+            <XMarkIcon className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+
+      {/* Keeps focus in the input, so clicks land before it blurs. */}
+      {showDropdown && (
+        <div
+          id="search-suggestions"
+          role="listbox"
+          onMouseDown={(e) => e.preventDefault()}
+          className="absolute right-0 mt-2 w-[26rem] bg-[#141414] border border-white/10 rounded-lg shadow-2xl overflow-hidden z-50">
+          {results.length === 0 ? (
+            <p className="px-4 py-3 text-sm text-gray-500">
+              No videos match "{query.trim()}".
+            </p>
+          ) : (
+            results.map(({video, highlight}, i) => (
+              <button
+                key={video.id}
+                role="option"
+                aria-selected={i === active}
+                onClick={() => choose(video)}
+                onMouseEnter={() => setActive(i)}
+                className={`w-full flex gap-3 text-left px-4 py-3 transition-colors ${i === active ? 'bg-white/10' : 'hover:bg-white/5'}`}>
+                <div className="w-20 aspect-video bg-[#2f2f2f] shrink-0 rounded overflow-hidden">
+                  <video
+                    src={video.videoUrl}
+                    poster={video.posterUrl}
+                    className="w-full h-full object-cover"
+                    muted
+                    playsInline
+                    preload="metadata"
+                    aria-hidden="true"
+                  />
+                </div>
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-100 line-clamp-1">
+                    <HighlightedText parts={highlight.title} />
+                  </p>
+                  <p className="text-xs text-gray-500 mt-0.5 line-clamp-2">
+                    <HighlightedText parts={highlight.snippet} />
+                  </p>
+                </div>
+              </button>
+            ))
+          )}
+          {total > 0 && (
+            <button
+              onClick={showAll}
+              className="w-full px-4 py-2.5 text-xs font-bold uppercase tracking-wider text-[#F54997] border-t border-white/5 hover:bg-white/5 transition-colors">
+              See all {total} {total === 1 ? 'result' : 'results'}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
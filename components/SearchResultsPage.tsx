@@ -0,0 +1,94 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, {useEffect, useMemo, useState} from 'react';
+import {VideoSearch} from '../hooks/useVideoSearch';
+import {Video} from '../types';
+import {XMarkIcon} from './icons';
+import {VideoGrid} from './VideoGrid';
+
+interface SearchResultsPageProps {
+  query: string;
+  search: VideoSearch;
+  /** The catalog, so results refresh when it changes. */
+  videos: Video[];
+  onPlayVideo: (video: Video) => void;
+  /** Ids in the viewer's "My List", marked on the cards. */
+  savedIds?: string[];
+  onToggleSaved?: (video: Video) => void;
+  onClose: () => void;
+}
+
+/** Results shown at first, and added by each "Show more". */
+const PAGE_SIZE = 40;
+
+/**
+ * All the videos matching a search, best match first, as a grid of cards
+ * with the matching words marked.
+ */
+export const SearchResultsPage: React.FC<SearchResultsPageProps> = ({
+  query,
+  search,
+  videos,
+  onPlayVideo,
+  savedIds,
+  onToggleSaved,
+  onClose,
+}) => {
+  const [limit, setLimit] = useState(PAGE_SIZE);
+  useEffect(() => setLimit(PAGE_SIZE), [query]);
+  const {results, total} = useMemo(
+    () => search(query, limit),
+    [search, query, limit, videos],
+  );
+  const highlights = useMemo(
+    () => new Map(results.map((r) => [r.video.id, r.highlight])),
+    [results],
+  );
+
+  return (
+    <div className="w-full min-h-full bg-[#0a0a0a] p-6 lg:p-10 space-y-8 animate-fade-in">
+      <header className="flex items-center justify-between border-b border-white/5 pb-4">
+        <div>
+          <h2 className="text-2xl md:text-3xl font-extrabold text-white tracking-tight">
+            Results for "{query.trim()}"
+          </h2>
+          <p className="text-sm text-gray-400 mt-1">
+            {total} {total === 1 ? 'video' : 'videos'}
+          </p>
+        </div>
+        <button
+          onClick={onClose}
+          className="text-white/80 hover:text-[#F54997] p-2 rounded-full bg-white/5 hover:bg-white/10 transition-colors"
+          aria-label="Close search results">
+          <XMarkIcon className="w-6 h-6" />
+        </button>
+      </header>
+
+      {total === 0 ? (
+        <p className="text-gray-500">
+          Nothing matches your search. Try fewer or different words.
+        </p>
+      ) : (
+        <VideoGrid
+          videos={results.map((r) => r.video)}
+          onPlayVideo={onPlayVideo}
+          highlights={highlights}
+          savedIds={savedIds}
+          onToggleSaved={onToggleSaved}
+        />
+      )}
+
+      {results.length < total && (
+        <div className="flex justify-center">
+          <button
+            onClick={() => setLimit((l) => l + PAGE_SIZE)}
+            className="bg-white/10 hover:bg-white/20 text-white px-6 py-2.5 rounded font-bold text-sm transition-colors border border-white/5">
+            Show more
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,81 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, {useEffect, useRef} from 'react';
+import {TranscriptTurn} from '../types';
+import {formatTimestamp} from '../utils/time';
+
+interface TranscriptLogProps {
+  turns: TranscriptTurn[];
+}
+
+/**
+ * A scrolling log of the companion conversation. Each turn shows who spoke,
+ * when, and the point in the video it refers to. Follows new turns unless
+ * the user has scrolled back.
+ */
+export const TranscriptLog: React.FC<TranscriptLogProps> = ({turns}) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const pinnedToBottomRef = useRef(true);
+
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (el && pinnedToBottomRef.current) {
+      el.scrollTop = el.scrollHeight;
+    }
+  }, [turns]);
+
+  const handleScroll = () => {
+    const el = scrollRef.current;
+    if (!el) return;
+    pinnedToBottomRef.current =
+      el.scrollHeight - el.scrollTop - el.clientHeight < 24;
+  };
+
+  if (turns.length === 0) {
+    return (
+      <p className="text-gray-500 text-xs text-center py-6">
+        The conversation transcript will appear here.
+      </p>
+    );
+  }
+
+  return (
+    <div
+      ref={scrollRef}
+      onScroll={handleScroll}
+      className="overflow-y-auto custom-scrollbar flex-1 min-h-0 w-full space-y-4 pr-1"
+      role="log"
+      aria-live="polite"
+      aria-label="Conversation transcript">
+      {turns.map((turn) => {
+        const isUser = turn.speaker === 'user';
+        return (
+          <div
+            key={turn.id}
+            className={`flex flex-col ${isUser ? 'items-end' : 'items-start'}`}>
+            <div className="flex items-center gap-2 text-[10px] uppercase tracking-wider font-semibold text-gray-500 mb-1">
+              <span className={isUser ? 'text-gray-300' : 'text-[#F54997]'}>
+                {isUser ? 'You' : 'Companion'}
+              </span>
+              <span>
+                {new Date(turn.createdAt).toLocaleTimeString([], {
+                  hour: '2-digit',
+                  minute: '2-digit',
+                })}
+              </span>
+              <span className="bg-white/10 px-1.5 py-0.5 rounded text-gray-300">
+                {formatTimestamp(turn.videoTime)}
+              </span>
+            </div>
+            <p
+              className={`max-w-[85%] rounded-lg px-3 py-2 text-sm leading-relaxed ${isUser ? 'bg-white/10 text-gray-100' : 'bg-[#F54997]/10 border border-[#F54997]/20 text-gray-200'} ${turn.final ? '' : 'opacity-80'}`}>
+              {turn.text}
+            </p>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,70 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import {Video} from '../types';
+import {PlayIcon} from './icons';
+
+interface UpNextOverlayProps {
+  video: Video;
+  secondsLeft: number;
+  /** Length of the whole countdown, for the progress bar. */
+  totalSeconds: number;
+  onPlayNow: () => void;
+  onCancel: () => void;
+}
+
+/**
+ * Covers the finished video with the next one and a countdown to it.
+ */
+export const UpNextOverlay: React.FC<UpNextOverlayProps> = ({
+  video,
+  secondsLeft,
+  totalSeconds,
+  onPlayNow,
+  onCancel,
+}) => (
+  <div
+    className="absolute inset-0 z-10 flex items-center justify-center bg-black/80 backdrop-blur-sm animate-fade-in"
+    role="status">
+    <div className="w-full max-w-md px-6 text-center space-y-5">
+      <p className="text-[#F54997] text-xs font-bold uppercase tracking-widest">
+        Up Next in {secondsLeft}s
+      </p>
+      <div className="relative w-full aspect-video bg-[#2f2f2f] rounded-lg overflow-hidden shadow-2xl">
+        <video
+          src={video.videoUrl}
+          poster={video.posterUrl}
+          className="w-full h-full object-cover"
+          muted
+          playsInline
+          preload="metadata"
+          aria-hidden="true"
+        />
+        <div className="absolute bottom-0 left-0 h-1 w-full bg-white/10">
+          <div
+            className="h-full bg-[#F54997] transition-[width] duration-1000 ease-linear"
+            style={{width: `${(1 - secondsLeft / totalSeconds) * 100}%`}}
+          />
+        </div>
+      </div>
+      <h3 className="text-lg font-bold text-white line-clamp-2">
+        {video.title}
+      </h3>
+      <div className="flex items-center justify-center gap-3">
+        <button
+          onClick={onPlayNow}
+          className="flex items-center gap-2 bg-white text-black hover:bg-gray-200 px-6 py-2.5 rounded font-bold text-sm transition-colors">
+          <PlayIcon className="w-5 h-5" />
+          <span>Play Now</span>
+        </button>
+        <button
+          onClick={onCancel}
+          className="bg-white/10 hover:bg-white/20 text-white px-6 py-2.5 rounded font-bold text-sm transition-colors border border-white/5">
+          Cancel
+        </button>
+      </div>
+    </div>
+  </div>
+);
@@ -0,0 +1,74 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, {useEffect, useRef, useState} from 'react';
+import {VideoCameraIcon} from './icons';
+
+interface UploadDropZoneProps {
+  onFiles: (files: File[]) => void;
+}
+
+function hasFiles(e: DragEvent) {
+  return Array.from(e.dataTransfer?.types ?? []).includes('Files');
+}
+
+/**
+ * Accepts video files dropped anywhere on the page, showing a full-window
+ * overlay while files are dragged over it.
+ */
+export const UploadDropZone: React.FC<UploadDropZoneProps> = ({onFiles}) => {
+  const [dragging, setDragging] = useState(false);
+  const onFilesRef = useRef(onFiles);
+  onFilesRef.current = onFiles;
+
+  useEffect(() => {
+    // dragenter/dragleave fire for every child element crossed.
+    let depth = 0;
+    const onDragEnter = (e: DragEvent) => {
+      if (!hasFiles(e)) return;
+      depth++;
+      setDragging(true);
+    };
+    const onDragOver = (e: DragEvent) => {
+      if (hasFiles(e)) e.preventDefault();
+    };
+    const onDragLeave = (e: DragEvent) => {
+      if (!hasFiles(e)) return;
+      depth = Math.max(0, depth - 1);
+      if (depth === 0) setDragging(false);
+    };
+    const onDrop = (e: DragEvent) => {
+      if (!hasFiles(e)) return;
+      e.preventDefault();
+      depth = 0;
+      setDragging(false);
+      onFilesRef.current(Array.from(e.dataTransfer?.files ?? []));
+    };
+
+    window.addEventListener('dragenter', onDragEnter);
+    window.addEventListener('dragover', onDragOver);
+    window.addEventListener('dragleave', onDragLeave);
+    window.addEventListener('drop', onDrop);
+    return () => {
+      window.removeEventListener('dragenter', onDragEnter);
+      window.removeEventListener('dragover', onDragOver);
+      window.removeEventListener('dragleave', onDragLeave);
+      window.removeEventListener('drop', onDrop);
+    };
+  }, []);
+
+  if (!dragging) return null;
+
+  return (
+    <div
+      className="fixed inset-0 z-[60] bg-black/80 backdrop-blur-sm flex items-center justify-center pointer-events-none animate-fade-in"
+      aria-hidden="true">
+      <div className="flex flex-col items-center gap-4 border-2 border-dashed border-[#F54997] rounded-2xl px-16 py-12">
+        <VideoCameraIcon className="w-12 h-12 text-[#F54997]" />
+        <p className="text-xl font-bold text-white">Drop videos to upload</p>
+        <p className="text-sm text-gray-400">MP4 or WebM</p>
+      </div>
+    </div>
+  );
+};
@@ -1,25 +1,95 @@
-
 /**
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React from 'react';
+import React, {useState} from 'react';
+import {SearchHighlight} from '../services/searchIndex';
+import {WatchHistory} from '../services/watchHistory';
 import {Video} from '../types';
+import {ChevronLeftIcon, ChevronRightIcon} from './icons';
 import {VideoCard} from './VideoCard';
 
 interface VideoGridProps {
   videos: Video[];
   onPlayVideo: (video: Video) => void;
+  /** Search matches to mark on the cards, by video id. */
+  highlights?: Map<string, SearchHighlight>;
+  /** Watch progress to show on the cards. */
+  history?: WatchHistory;
+  /** Ids of the videos in My List. */
+  savedIds?: string[];
+  onToggleSaved?: (video: Video) => void;
+  /**
+   * Moves a video to the place of another, by dragging or with the arrow
+   * buttons; omit to keep the order fixed.
+   */
+  onReorder?: (videoId: string, targetId: string) => void;
 }
 
+const moveButtonClass =
+  'p-1 rounded-full bg-black/60 backdrop-blur-md border border-white/10 text-white hover:bg-[#F54997] disabled:opacity-30 disabled:hover:bg-black/60 transition-colors';
+
 /**
  * A component that renders a grid of video cards.
  */
-export const VideoGrid: React.FC<VideoGridProps> = ({videos, onPlayVideo}) => {
+export const VideoGrid: React.FC<VideoGridProps> = ({
+  videos,
+  onPlayVideo,
+  highlights,
+  history,
+  savedIds,
+  onToggleSaved,
+  onReorder,
+}) => {
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+
   return (
     <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 2xl:grid-cols-5 gap-x-4 gap-y-8">
-      {videos.map((video) => (
-        <VideoCard key={video.id} video={video} onPlay={onPlayVideo} />
+      {videos.map((video, index) => (
+        <div
+          key={video.id}
+          className={`relative ${draggedId === video.id ? 'opacity-40' : ''}`}
+          draggable={onReorder !== undefined}
+          onDragStart={(e) => {
+            e.dataTransfer.effectAllowed = 'move';
+            setDraggedId(video.id);
+          }}
+          onDragOver={(e) => {
+            if (draggedId) e.preventDefault();
+          }}
+          onDrop={(e) => {
+            e.preventDefault();
+            if (draggedId) onReorder?.(draggedId, video.id);
+            setDraggedId(null);
+          }}
+          onDragEnd={() => setDraggedId(null)}>
+          <VideoCard
+            video={video}
+            onPlay={onPlayVideo}
+            highlight={highlights?.get(video.id)}
+            progress={history?.[video.id]}
+            saved={savedIds?.includes(video.id)}
+            onToggleSaved={onToggleSaved}
+          />
+          {onReorder && (
+            <div className="absolute top-2 left-2 flex gap-1">
+              <button
+                onClick={() => onReorder(video.id, videos[index - 1].id)}
+                disabled={index === 0}
+                className={moveButtonClass}
+                aria-label={`Move ${video.title} earlier`}>
+                <ChevronLeftIcon className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => onReorder(video.id, videos[index + 1].id)}
+                disabled={index === videos.length - 1}
+                className={moveButtonClass}
+                aria-label={`Move ${video.title} later`}>
+                <ChevronRightIcon className="w-4 h-4" />
+              </button>
+            </div>
+          )}
+        </div>
       ))}
     </div>
   );
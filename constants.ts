@@ -2,13 +2,47 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import {Video} from './types';
+import {
+  CompanionConfig,
+  CompanionTransportKind,
+  GenerationConfig,
+  Video,
+  VideoGeneratorKind,
+} from './types';
+import {withDerivedMetadata} from './utils/videoMetadata';
 
 /** Base URL for static files. */
 const staticFilesUrl =
   'https://www.gstatic.com/aistudio/starter-apps/veo3-gallery/';
 
-/** Videos for the gallery. */
+/** Live connection settings for the AI companion. */
+export const COMPANION_CONFIG: CompanionConfig = {
+  transport:
+    (process.env.COMPANION_TRANSPORT as CompanionTransportKind) || 'gemini',
+  model: 'gemini-2.5-flash-native-audio-preview-09-2025',
+  mockServerUrl: process.env.COMPANION_MOCK_URL || 'ws://localhost:8765',
+  mockScript: process.env.COMPANION_MOCK_SCRIPT || 'greeting',
+  maxReconnectAttempts: 5,
+  reconnectBaseDelayMs: 1000,
+  speechPlaybackPolicy: 'duck',
+  duckVolume: 0.2,
+  frameBytesPerSecond: 40_000,
+};
+
+/** Remix generation settings. */
+export const GENERATION_CONFIG: GenerationConfig = {
+  generator: (process.env.VIDEO_GENERATOR as VideoGeneratorKind) || 'veo',
+  model: 'veo-3.0-fast-generate-001',
+  aspectRatio: '16:9',
+  pollIntervalMs: 10000,
+  expectedDurationMs: 60000,
+  stubFixtureUrl:
+    staticFilesUrl + 'Stop_Motion_Fluffy_Characters__Culinary_Disaster.mp4',
+  stubOutcome:
+    process.env.VIDEO_STUB_OUTCOME === 'error' ? 'error' : 'success',
+};
+
+/** Videos for the gallery, tagged from their prompts. */
 export const MOCK_VIDEOS: Video[] = [
   {
     id: '1',
@@ -73,4 +107,37 @@ export const MOCK_VIDEOS: Video[] = [
       staticFilesUrl + 'Fluffy_Characters_Picnic_in_a_Mushroom_Forest.mp4',
     description: `Fluffy Characters Stop Motion: A bright, whimsical forest clearing where oversized, colorful mushrooms grow. Two adorable, fluffy squirrel-like creatures with big, curious eyes are having a picnic. One, wearing a tiny knitted scarf, attempts to open a jar of "Nutty Spread," making frustrated, soft "grunts" and tiny "panting" sounds. The camera is a mid-shot, then slowly zooms in on the struggling jar. The other, an even fluffier creature with a flower behind its ear, giggles softly, then says in a sweet, high-pitched voice, "Need a paw, Squiggle?" A gentle, melodic flute tune plays throughout.`,
   },
+].map(withDerivedMetadata);
+
+/** Style prefixes offered by the prompt editor. */
+export const STYLE_PRESETS = [
+  'Claymation (Stop Motion)',
+  'Fluffy Characters Stop Motion',
+  'Cinematic Live Action',
+  'Nature Documentary',
+  'Anime',
+  'Film Noir',
+  '3D Animation',
+  'Watercolor Animation',
+];
+
+/** Camera directions offered by the prompt editor. */
+export const CAMERA_PRESETS = [
+  'The camera slowly zooms in.',
+  'The camera gradually pulls back to reveal the surroundings.',
+  'A sweeping aerial shot establishes the scene.',
+  'A low-angle tracking shot follows the subject.',
+  'A fast-tracking POV shot moves through the scene.',
+  'The camera pans slowly from left to right.',
+  'An extreme close-up lingers on the details.',
+  'A static wide shot frames the whole scene.',
+];
+
+/** Sound and music cues offered by the prompt editor. */
+export const SOUND_PRESETS = [
+  'Soft ambient music plays in the background.',
+  'High-energy, pulsating electronic music drives the action.',
+  'A gentle, melodic flute tune plays throughout.',
+  'The ambient sounds of nature fill the background.',
+  'A comical "boing" sound effect punctuates the moment.',
 ];
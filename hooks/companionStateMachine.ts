@@ -0,0 +1,62 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/** Lifecycle states of a Live companion session. */
+export type CompanionStatus =
+  | 'idle'
+  | 'requesting-mic'
+  | 'connecting'
+  | 'live'
+  | 'reconnecting'
+  | 'closing'
+  | 'error';
+
+/**
+ * Events that move a companion session between states. `START` begins a
+ * voice session, which needs the microphone first; `START_TEXT` begins a
+ * typed session, which connects straight away.
+ */
+export type CompanionEvent =
+  | 'START'
+  | 'START_TEXT'
+  | 'MIC_READY'
+  | 'OPENED'
+  | 'CONNECTION_LOST'
+  | 'STOP'
+  | 'CLOSED'
+  | 'FAILED';
+
+/**
+ * Allowed transitions. Any event not listed for a state is rejected, which
+ * keeps stale callbacks (e.g. an `onclose` arriving after the user already
+ * ended the session) from corrupting the lifecycle.
+ */
+const TRANSITIONS: {
+  [S in CompanionStatus]: Partial<Record<CompanionEvent, CompanionStatus>>;
+} = {
+  idle: {START: 'requesting-mic', START_TEXT: 'connecting'},
+  'requesting-mic': {MIC_READY: 'connecting', STOP: 'closing', FAILED: 'error'},
+  connecting: {OPENED: 'live', STOP: 'closing', FAILED: 'error'},
+  live: {
+    CONNECTION_LOST: 'reconnecting',
+    STOP: 'closing',
+    CLOSED: 'idle',
+    FAILED: 'error',
+  },
+  reconnecting: {OPENED: 'live', STOP: 'closing', FAILED: 'error'},
+  closing: {CLOSED: 'idle'},
+  error: {START: 'requesting-mic', START_TEXT: 'connecting', STOP: 'closing'},
+};
+
+/**
+ * Returns the state reached by applying `event` in `status`, or null when the
+ * transition is not allowed.
+ */
+export function nextCompanionStatus(
+  status: CompanionStatus,
+  event: CompanionEvent,
+): CompanionStatus | null {
+  return TRANSITIONS[status][event] ?? null;
+}
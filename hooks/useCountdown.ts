@@ -0,0 +1,42 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {useEffect, useRef, useState} from 'react';
+
+export interface Countdown {
+  /** Whole seconds left, or null when not counting down. */
+  secondsLeft: number | null;
+  start(seconds: number): void;
+  cancel(): void;
+}
+
+/**
+ * Counts down once per second and calls `onDone` when it reaches zero,
+ * unless cancelled first.
+ */
+export function useCountdown(onDone: () => void): Countdown {
+  const [secondsLeft, setSecondsLeft] = useState<number | null>(null);
+  const onDoneRef = useRef(onDone);
+  onDoneRef.current = onDone;
+
+  useEffect(() => {
+    if (secondsLeft === null) return;
+    if (secondsLeft <= 0) {
+      setSecondsLeft(null);
+      onDoneRef.current();
+      return;
+    }
+    const timer = setTimeout(
+      () => setSecondsLeft((s) => (s === null ? null : s - 1)),
+      1000,
+    );
+    return () => clearTimeout(timer);
+  }, [secondsLeft]);
+
+  return {
+    secondsLeft,
+    start: (seconds) => setSecondsLeft(seconds),
+    cancel: () => setSecondsLeft(null),
+  };
+}
@@ -0,0 +1,819 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {LiveServerMessage, Modality} from '@google/genai';
+import React, {useEffect, useRef, useState} from 'react';
+import {COMPANION_CONFIG} from '../constants';
+import {
+  CompanionSession,
+  CompanionTransport,
+  createCompanionTransport,
+} from '../services/companionTransport';
+import {buildPlayerTools, executePlayerTools} from '../services/companionTools';
+import {FrameSampler, startFrameSampler} from '../services/frameSampler';
+import {MicCapture, startMicCapture} from '../services/micCapture';
+import {
+  describeFrame,
+  describePlayback,
+  describePlaybackEvent,
+  PlaybackEvent,
+} from '../services/playbackContext';
+import {
+  CompanionInputMode,
+  MicMode,
+  SpeechPlaybackPolicy,
+  TranscriptSpeaker,
+  TranscriptTurn,
+  Video,
+} from '../types';
+import {
+  createLevelAnalyser,
+  createPcmBlob,
+  decode,
+  decodeAudioData,
+} from '../utils/audio';
+import {formatTimestamp} from '../utils/time';
+import {describeVideoMetadata} from '../utils/videoMetadata';
+import {createVoiceActivityDetector} from '../utils/voiceActivity';
+import {
+  appendTranscriptChunk,
+  appendTranscriptTurn,
+  finalizeTranscript,
+} from '../utils/transcript';
+import {
+  CompanionEvent,
+  CompanionStatus,
+  nextCompanionStatus,
+} from './companionStateMachine';
+
+interface UseLiveCompanionOptions {
+  video: Video;
+  videoRef: React.RefObject<HTMLVideoElement | null>;
+  /** Videos the companion may switch to with its `playVideo` tool. */
+  catalog?: Video[];
+  /** Called when the companion asks to play another video. */
+  onPlayVideo?: (video: Video) => void;
+  /** Defaults to the transport named by `COMPANION_CONFIG`. */
+  transport?: CompanionTransport;
+}
+
+/** Level-metering taps on the microphone and companion audio chains. */
+export interface CompanionAnalysers {
+  user: AnalyserNode | null;
+  companion: AnalyserNode | null;
+}
+
+/**
+ * The state and controls of a Live companion session, as returned by
+ * `useLiveCompanion`.
+ */
+export interface LiveCompanion {
+  status: CompanionStatus;
+  /** Why the session entered the `error` state, if it did. */
+  error: string | null;
+  /** True while microphone audio is actually being captured and sent. */
+  micActive: boolean;
+  micMode: MicMode;
+  setMicMode: (mode: MicMode) => void;
+  /** Opens or closes the mic while in `push-to-talk` mode. */
+  setPushToTalk: (pressed: boolean) => void;
+  /** When set, only chunks the voice-activity detector hears as speech go out. */
+  voiceActivityDetection: boolean;
+  setVoiceActivityDetection: (enabled: boolean) => void;
+  /**
+   * Returns the current analysers. Meant to be polled per animation frame,
+   * so levels never go through React state.
+   */
+  getAnalysers: () => CompanionAnalysers;
+  /** The retry in progress while `reconnecting`, counting from 1. */
+  reconnectAttempt: number;
+  /** Transcribed user and companion turns of the current conversation. */
+  transcript: TranscriptTurn[];
+  inputMode: CompanionInputMode;
+  /** Whether companion replies are played aloud as well as transcribed. */
+  speakReplies: boolean;
+  setSpeakReplies: (speak: boolean) => void;
+  /** What happens to the video while the companion is speaking. */
+  speechPlaybackPolicy: SpeechPlaybackPolicy;
+  setSpeechPlaybackPolicy: (policy: SpeechPlaybackPolicy) => void;
+  connect: (mode?: CompanionInputMode) => Promise<void>;
+  disconnect: () => void;
+  /** Sends a typed message as a user turn; ignored unless `live`. */
+  sendText: (text: string) => void;
+}
+
+/** Upper bound on the backoff between reconnect attempts. */
+const MAX_RECONNECT_DELAY_MS = 30000;
+
+/**
+ * How long playback stays ducked or paused after the last scheduled chunk
+ * ends, so network gaps between chunks don't make it flicker.
+ */
+const SPEECH_RELEASE_DELAY_MS = 400;
+
+/**
+ * Playback events within this window of a change the companion made itself
+ * (ducking or a tool call) are not reported back to it.
+ */
+const SELF_CHANGE_WINDOW_MS = 500;
+
+const PLAYBACK_EVENTS: PlaybackEvent[] = [
+  'seeked',
+  'pause',
+  'play',
+  'ratechange',
+];
+
+/** The video state to put back once the companion stops speaking. */
+interface SpeechPlaybackState {
+  policy: SpeechPlaybackPolicy;
+  volume: number;
+  duckedVolume: number;
+  pausedByCompanion: boolean;
+}
+
+function describeChapters(video: Video): string {
+  if (!video.chapters?.length) return '';
+  const list = video.chapters
+    .map(
+      (c) =>
+        `${formatTimestamp(c.start)}–${formatTimestamp(c.end)} ${c.title}`,
+    )
+    .join('; ');
+  return ` The video is divided into these chapters: ${list}. Use them to find moments the viewer refers to, e.g. "the second scene".`;
+}
+
+function describeMetadata(video: Video): string {
+  const {resolution, year, tags, duration} = describeVideoMetadata(video);
+  const facts = [
+    duration && `it is ${duration} long`,
+    resolution && `its resolution is ${resolution}`,
+    year && `it was made in ${year}`,
+    tags.length > 0 && `its style is ${tags.join(', ')}`,
+    video.hasAudio !== undefined &&
+      (video.hasAudio ? 'it has sound' : 'it has no sound'),
+  ].filter(Boolean);
+  return facts.length > 0 ? ` About the video: ${facts.join('; ')}.` : '';
+}
+
+function buildSystemInstruction(video: Video): string {
+  return `You are a helpful AI video companion. You are watching a video titled "${video.title}". Description: "${video.description}". Answer their questions about what is happening on screen concisely and enthusiastically. When the viewer asks you to seek, pause, play, change speed or watch something else, use the player tools instead of describing what they should do. Each video frame you receive is preceded by a note of the playback position it shows, and you will be told when the viewer seeks, pauses, resumes or changes speed; use this to tell which moment the viewer means.${describeMetadata(video)}${describeChapters(video)}`;
+}
+
+function describeError(err: unknown): string {
+  if (err instanceof DOMException && err.name === 'NotAllowedError') {
+    return 'Microphone access was denied.';
+  }
+  return err instanceof Error ? err.message : String(err);
+}
+
+/**
+ * Runs a Gemini Live companion for the video shown in `videoRef`: streams
+ * frames and either the microphone or typed messages to the model, and plays
+ * back and transcribes its replies. Frames come from an adaptive sampler
+ * (see `frameSampler.ts`) that sends scene cuts straight away, skips near
+ * duplicates and fits resolution to a byte budget. Dropped sessions are
+ * retried with exponential backoff, resuming the conversation when the
+ * server supports it. The session lifecycle is an explicit state machine
+ * (see `companionStateMachine.ts`), so any component can embed the
+ * companion and render its `status`.
+ */
+export function useLiveCompanion({
+  video,
+  videoRef,
+  catalog = [],
+  onPlayVideo,
+  transport,
+}: UseLiveCompanionOptions): LiveCompanion {
+  const [status, setStatus] = useState<CompanionStatus>('idle');
+  const [error, setError] = useState<string | null>(null);
+  const [reconnectAttempt, setReconnectAttempt] = useState(0);
+  const [transcript, setTranscript] = useState<TranscriptTurn[]>([]);
+  const [inputMode, setInputMode] = useState<CompanionInputMode>('voice');
+  const [speakReplies, setSpeakRepliesState] = useState(true);
+  const [micMode, setMicModeState] = useState<MicMode>('always-on');
+  const [pushToTalkPressed, setPushToTalkPressed] = useState(false);
+  const [voiceActivityDetection, setVoiceActivityDetectionState] =
+    useState(false);
+  const [micCapturing, setMicCapturing] = useState(false);
+  const [speechPlaybackPolicy, setSpeechPlaybackPolicyState] = useState(
+    COMPANION_CONFIG.speechPlaybackPolicy,
+  );
+
+  // Mirrors `status` so transitions can be checked synchronously.
+  const statusRef = useRef<CompanionStatus>('idle');
+  const videoInfoRef = useRef(video);
+  videoInfoRef.current = video;
+  const catalogRef = useRef(catalog);
+  catalogRef.current = catalog;
+  const onPlayVideoRef = useRef(onPlayVideo);
+  onPlayVideoRef.current = onPlayVideo;
+  const transportRef = useRef<CompanionTransport | null>(transport ?? null);
+
+  // Live API Resources
+  const audioContextRef = useRef<AudioContext | null>(null);
+  const outputNodeRef = useRef<GainNode | null>(null);
+  const outputAnalyserRef = useRef<AnalyserNode | null>(null);
+  const micCaptureRef = useRef<MicCapture | null>(null);
+  const sessionRef = useRef<CompanionSession | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const frameSamplerRef = useRef<FrameSampler | null>(null);
+  const nextStartTimeRef = useRef<number>(0);
+  const sourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
+  // Bumped for every session and whenever resources are released, so
+  // callbacks from an abandoned connection can tell they are stale.
+  const generationRef = useRef(0);
+  const resumeHandleRef = useRef<string | null>(null);
+  const reconnectTimerRef = useRef<number | null>(null);
+  const reconnectAttemptRef = useRef(0);
+  const speakRepliesRef = useRef(true);
+  const micModeRef = useRef<MicMode>('always-on');
+  const pushToTalkRef = useRef(false);
+  const vadEnabledRef = useRef(false);
+  const isSpeechRef = useRef(createVoiceActivityDetector());
+  // Whether the last mic chunk went to the model, so the server can be told
+  // when the audio stream pauses.
+  const sendingAudioRef = useRef(false);
+  const speechPolicyRef = useRef(COMPANION_CONFIG.speechPlaybackPolicy);
+  const speechPlaybackRef = useRef<SpeechPlaybackState | null>(null);
+  const speechReleaseTimerRef = useRef<number | null>(null);
+  const removePlaybackListenersRef = useRef<(() => void) | null>(null);
+  const selfChangeUntilRef = useRef(0);
+
+  const transition = (event: CompanionEvent): boolean => {
+    const next = nextCompanionStatus(statusRef.current, event);
+    if (!next) return false;
+    statusRef.current = next;
+    setStatus(next);
+    return true;
+  };
+
+  const getTransport = () => {
+    if (!transportRef.current) {
+      transportRef.current = createCompanionTransport(COMPANION_CONFIG);
+    }
+    return transportRef.current;
+  };
+
+  const releaseResources = () => {
+    generationRef.current++;
+
+    if (reconnectTimerRef.current) {
+      clearTimeout(reconnectTimerRef.current);
+      reconnectTimerRef.current = null;
+    }
+    reconnectAttemptRef.current = 0;
+    setReconnectAttempt(0);
+
+    if (frameSamplerRef.current) {
+      frameSamplerRef.current.stop();
+      frameSamplerRef.current = null;
+    }
+
+    if (removePlaybackListenersRef.current) {
+      removePlaybackListenersRef.current();
+      removePlaybackListenersRef.current = null;
+    }
+
+    if (sessionRef.current) {
+      sessionRef.current.close();
+      sessionRef.current = null;
+    }
+
+    sourcesRef.current.forEach((source) => {
+      try {
+        source.stop();
+      } catch (e) {}
+    });
+    sourcesRef.current.clear();
+    endCompanionSpeech();
+
+    if (audioContextRef.current) {
+      audioContextRef.current.close();
+      audioContextRef.current = null;
+      outputNodeRef.current = null;
+      outputAnalyserRef.current = null;
+    }
+    if (micCaptureRef.current) {
+      micCaptureRef.current.stop();
+      micCaptureRef.current = null;
+    }
+    setMicCapturing(false);
+    sendingAudioRef.current = false;
+
+    if (streamRef.current) {
+      streamRef.current.getTracks().forEach((track) => track.stop());
+      streamRef.current = null;
+    }
+
+    setTranscript(finalizeTranscript);
+  };
+
+  const fail = (err: unknown) => {
+    console.error('Gemini Live companion failed', err);
+    releaseResources();
+    setError(describeError(err));
+    transition('FAILED');
+  };
+
+  /** Ducks or pauses the video as the companion starts speaking. */
+  const beginCompanionSpeech = () => {
+    if (speechReleaseTimerRef.current) {
+      clearTimeout(speechReleaseTimerRef.current);
+      speechReleaseTimerRef.current = null;
+    }
+    const videoEl = videoRef.current;
+    const policy = speechPolicyRef.current;
+    if (speechPlaybackRef.current || !videoEl || policy === 'none') return;
+    if (!speakRepliesRef.current) return;
+
+    const state: SpeechPlaybackState = {
+      policy,
+      volume: videoEl.volume,
+      duckedVolume: videoEl.volume,
+      pausedByCompanion: false,
+    };
+    if (policy === 'duck') {
+      videoEl.volume *= COMPANION_CONFIG.duckVolume;
+      state.duckedVolume = videoEl.volume;
+    } else if (!videoEl.paused) {
+      markSelfChange();
+      videoEl.pause();
+      state.pausedByCompanion = true;
+    }
+    speechPlaybackRef.current = state;
+  };
+
+  /**
+   * Restores the video once the companion has finished. Leaves it alone if
+   * the viewer changed the volume or playback in the meantime.
+   */
+  const endCompanionSpeech = () => {
+    if (speechReleaseTimerRef.current) {
+      clearTimeout(speechReleaseTimerRef.current);
+      speechReleaseTimerRef.current = null;
+    }
+    const state = speechPlaybackRef.current;
+    speechPlaybackRef.current = null;
+    const videoEl = videoRef.current;
+    if (!state || !videoEl) return;
+    if (state.policy === 'duck') {
+      if (Math.abs(videoEl.volume - state.duckedVolume) < 0.01) {
+        videoEl.volume = state.volume;
+      }
+    } else if (state.pausedByCompanion && videoEl.paused) {
+      markSelfChange();
+      videoEl.play().catch(() => {});
+    }
+  };
+
+  const scheduleSpeechEnd = () => {
+    if (speechReleaseTimerRef.current) return;
+    speechReleaseTimerRef.current = window.setTimeout(() => {
+      speechReleaseTimerRef.current = null;
+      if (sourcesRef.current.size === 0) endCompanionSpeech();
+    }, SPEECH_RELEASE_DELAY_MS);
+  };
+
+  const setSpeechPlaybackPolicy = (policy: SpeechPlaybackPolicy) => {
+    // Undo the old policy before switching, so a paused video isn't stranded.
+    endCompanionSpeech();
+    speechPolicyRef.current = policy;
+    setSpeechPlaybackPolicyState(policy);
+    if (sourcesRef.current.size > 0) beginCompanionSpeech();
+  };
+
+  const playAudio = async (base64Audio: string) => {
+    const ctx = audioContextRef.current;
+    const outputNode = outputNodeRef.current;
+    if (!ctx || !outputNode) return;
+    try {
+      if (ctx.state === 'suspended') {
+        await ctx.resume();
+      }
+
+      const audioBuffer = await decodeAudioData(
+        decode(base64Audio),
+        ctx,
+        24000,
+        1,
+      );
+
+      const source = ctx.createBufferSource();
+      source.buffer = audioBuffer;
+      source.connect(outputNode);
+
+      const startTime = Math.max(nextStartTimeRef.current, ctx.currentTime);
+      source.start(startTime);
+      nextStartTimeRef.current = startTime + audioBuffer.duration;
+
+      source.onended = () => {
+        sourcesRef.current.delete(source);
+        if (sourcesRef.current.size === 0) scheduleSpeechEnd();
+      };
+      sourcesRef.current.add(source);
+      beginCompanionSpeech();
+    } catch (e) {
+      console.error('Audio decode error', e);
+    }
+  };
+
+  const setSpeakReplies = (speak: boolean) => {
+    speakRepliesRef.current = speak;
+    setSpeakRepliesState(speak);
+    if (outputNodeRef.current) {
+      outputNodeRef.current.gain.value = speak ? 1 : 0;
+    }
+    if (!speak) endCompanionSpeech();
+  };
+
+  const applyMicMode = (mode: MicMode) => {
+    // Disable the track while muted so the browser stops capturing at all.
+    streamRef.current?.getAudioTracks().forEach((track) => {
+      track.enabled = mode !== 'muted';
+    });
+  };
+
+  const setMicMode = (mode: MicMode) => {
+    micModeRef.current = mode;
+    setMicModeState(mode);
+    applyMicMode(mode);
+  };
+
+  const setPushToTalk = (pressed: boolean) => {
+    pushToTalkRef.current = pressed;
+    setPushToTalkPressed(pressed);
+  };
+
+  const setVoiceActivityDetection = (enabled: boolean) => {
+    vadEnabledRef.current = enabled;
+    isSpeechRef.current = createVoiceActivityDetector();
+    setVoiceActivityDetectionState(enabled);
+  };
+
+  const handleMicChunk = (pcm: Int16Array) => {
+    const session = sessionRef.current;
+    const mode = micModeRef.current;
+    const gateOpen =
+      mode === 'always-on' ||
+      (mode === 'push-to-talk' && pushToTalkRef.current);
+    const send =
+      gateOpen && (!vadEnabledRef.current || isSpeechRef.current(pcm));
+    if (send) {
+      session?.sendRealtimeInput({media: createPcmBlob(pcm)});
+    } else if (sendingAudioRef.current) {
+      session?.sendRealtimeInput({audioStreamEnd: true});
+    }
+    sendingAudioRef.current = send;
+  };
+
+  const addTranscript = (speaker: TranscriptSpeaker, text: string) => {
+    const videoTime = videoRef.current?.currentTime ?? 0;
+    setTranscript((turns) =>
+      appendTranscriptChunk(turns, speaker, text, videoTime),
+    );
+  };
+
+  const getPlayerControls = () => ({
+    video: videoRef.current,
+    catalog: catalogRef.current,
+    playVideo: onPlayVideoRef.current,
+  });
+
+  const handleToolCall = async (message: LiveServerMessage) => {
+    const calls = message.toolCall?.functionCalls;
+    if (!calls?.length) return;
+    const session = sessionRef.current;
+    markSelfChange();
+    const functionResponses = await executePlayerTools(
+      calls,
+      getPlayerControls(),
+    );
+    // Only answer on the session that asked.
+    if (session && session === sessionRef.current) {
+      session.sendToolResponse({functionResponses});
+    }
+  };
+
+  const handleMessage = (message: LiveServerMessage) => {
+    if (message.toolCall) {
+      handleToolCall(message);
+    }
+
+    const serverContent = message.serverContent;
+    if (serverContent?.inputTranscription?.text) {
+      addTranscript('user', serverContent.inputTranscription.text);
+    }
+    if (serverContent?.outputTranscription?.text) {
+      addTranscript('companion', serverContent.outputTranscription.text);
+    }
+    const modelText = serverContent?.modelTurn?.parts
+      ?.map((part) => part.text ?? '')
+      .join('');
+    if (modelText) {
+      addTranscript('companion', modelText);
+    }
+    if (serverContent?.turnComplete || serverContent?.interrupted) {
+      setTranscript(finalizeTranscript);
+    }
+
+    const base64Audio =
+      message.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
+    if (base64Audio) {
+      playAudio(base64Audio);
+    }
+
+    if (message.serverContent?.interrupted) {
+      sourcesRef.current.forEach((s) => s.stop());
+      sourcesRef.current.clear();
+      nextStartTimeRef.current = audioContextRef.current?.currentTime ?? 0;
+      endCompanionSpeech();
+    }
+  };
+
+  const markSelfChange = () => {
+    selfChangeUntilRef.current = performance.now() + SELF_CHANGE_WINDOW_MS;
+  };
+
+  /**
+   * Adds a line of context to the conversation without asking for a reply.
+   * Keep it for occasional events: it interrupts a reply being spoken.
+   */
+  const sendContext = (text: string) => {
+    sessionRef.current?.sendClientContent({
+      turns: [{role: 'user', parts: [{text}]}],
+      turnComplete: false,
+    });
+  };
+
+  /** Reports the viewer's seeks, pauses and speed changes to the companion. */
+  const startPlaybackEvents = () => {
+    const videoEl = videoRef.current;
+    if (!videoEl) return;
+    const listeners = PLAYBACK_EVENTS.map((type) => {
+      const listener = () => {
+        if (performance.now() < selfChangeUntilRef.current) return;
+        sendContext(describePlaybackEvent(type, videoEl));
+      };
+      videoEl.addEventListener(type, listener);
+      return () => videoEl.removeEventListener(type, listener);
+    });
+    removePlaybackListenersRef.current = () => {
+      listeners.forEach((remove) => remove());
+    };
+  };
+
+  const startFrameCapture = () => {
+    const videoEl = videoRef.current;
+    if (!videoEl) return;
+    frameSamplerRef.current = startFrameSampler(
+      videoEl,
+      ({mimeType, data, time}) => {
+        // The position goes alongside as realtime text rather than drawn on
+        // the picture, where it would be hard to read at low resolutions.
+        // Client content would interrupt a reply the companion is speaking.
+        const session = sessionRef.current;
+        session?.sendRealtimeInput({text: describeFrame(time, videoEl)});
+        session?.sendRealtimeInput({media: {mimeType, data}});
+      },
+      {bytesPerSecond: COMPANION_CONFIG.frameBytesPerSecond},
+    );
+  };
+
+  /**
+   * Opens a session with the current system instruction, resuming the
+   * previous conversation when the server has handed us a resumption handle.
+   * Resolves to false if the attempt failed or was abandoned; failures are
+   * reported through `handleConnectionLost`.
+   */
+  const openSession = async (): Promise<boolean> => {
+    const generation = ++generationRef.current;
+    const isCurrent = () => generation === generationRef.current;
+    let lost = false;
+    const lose = (reason: string) => {
+      if (lost || !isCurrent()) return;
+      lost = true;
+      handleConnectionLost(reason);
+    };
+
+    let session: CompanionSession;
+    try {
+      session = await getTransport().connect({
+        config: {
+          responseModalities: [Modality.AUDIO],
+          speechConfig: {
+            voiceConfig: {prebuiltVoiceConfig: {voiceName: 'Zephyr'}},
+          },
+          systemInstruction: buildSystemInstruction(videoInfoRef.current),
+          sessionResumption: {handle: resumeHandleRef.current ?? undefined},
+          inputAudioTranscription: {},
+          outputAudioTranscription: {},
+          tools: buildPlayerTools(getPlayerControls()),
+        },
+        callbacks: {
+          onopen: () => {
+            console.log('Gemini Live Connected');
+          },
+          onmessage: (message: LiveServerMessage) => {
+            if (!isCurrent()) return;
+            const update = message.sessionResumptionUpdate;
+            if (update?.resumable && update.newHandle) {
+              resumeHandleRef.current = update.newHandle;
+            }
+            if (message.goAway) {
+              lose('Session time limit reached');
+              return;
+            }
+            handleMessage(message);
+          },
+          onclose: (e) => lose(e.reason || 'Connection closed'),
+          onerror: (e) => lose(e.message || 'Connection error'),
+        },
+      });
+    } catch (err) {
+      lose(describeError(err));
+      return false;
+    }
+
+    if (!isCurrent() || lost) {
+      session.close();
+      return false;
+    }
+    sessionRef.current = session;
+    return true;
+  };
+
+  const handleConnectionLost = (reason: string) => {
+    console.warn('Gemini Live connection lost:', reason);
+    if (sessionRef.current) {
+      sessionRef.current.close();
+      sessionRef.current = null;
+    }
+    // Losing a session that never opened the first time is a plain failure;
+    // once the conversation is underway we try to get it back.
+    if (statusRef.current === 'live') {
+      transition('CONNECTION_LOST');
+    }
+    if (statusRef.current === 'reconnecting') {
+      scheduleReconnect(reason);
+    } else {
+      fail(reason);
+    }
+  };
+
+  const scheduleReconnect = (reason: string) => {
+    const attempt = reconnectAttemptRef.current;
+    if (attempt >= COMPANION_CONFIG.maxReconnectAttempts) {
+      fail(`Lost connection to the companion: ${reason}`);
+      return;
+    }
+    reconnectAttemptRef.current = attempt + 1;
+    setReconnectAttempt(attempt + 1);
+    const delay = Math.min(
+      COMPANION_CONFIG.reconnectBaseDelayMs * 2 ** attempt,
+      MAX_RECONNECT_DELAY_MS,
+    );
+    reconnectTimerRef.current = window.setTimeout(reconnect, delay);
+  };
+
+  const reconnect = async () => {
+    reconnectTimerRef.current = null;
+    if (!(await openSession())) return;
+    reconnectAttemptRef.current = 0;
+    setReconnectAttempt(0);
+    transition('OPENED');
+    sendPlaybackContext('The connection was briefly interrupted.');
+  };
+
+  /**
+   * Tells the model where the viewer is in the video, so a resumed (or
+   * freshly restarted) conversation picks up at the right moment.
+   */
+  const sendPlaybackContext = (preamble: string) => {
+    const videoEl = videoRef.current;
+    if (!videoEl) return;
+    sendContext(
+      `${preamble} The viewer is now at ${describePlayback(videoEl)} in "${videoInfoRef.current.title}". Carry on from there.`,
+    );
+  };
+
+  const connect = async (mode: CompanionInputMode = 'voice') => {
+    if (!transition(mode === 'voice' ? 'START' : 'START_TEXT')) return;
+    setInputMode(mode);
+    setError(null);
+    setTranscript([]);
+    resumeHandleRef.current = null;
+    const generation = ++generationRef.current;
+
+    let stream: MediaStream | null = null;
+    if (mode === 'voice') {
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({audio: true});
+      } catch (err) {
+        if (generation === generationRef.current) fail(err);
+        return;
+      }
+      if (generation !== generationRef.current) {
+        stream.getTracks().forEach((track) => track.stop());
+        return;
+      }
+      streamRef.current = stream;
+      transition('MIC_READY');
+    }
+
+    const AudioContextClass =
+      window.AudioContext || (window as any).webkitAudioContext;
+    const audioContext: AudioContext = new AudioContextClass({
+      sampleRate: 24000,
+    });
+    audioContextRef.current = audioContext;
+    const outputNode = audioContext.createGain();
+    outputNode.gain.value = speakRepliesRef.current ? 1 : 0;
+    const outputAnalyser = createLevelAnalyser(audioContext);
+    outputNode.connect(outputAnalyser);
+    outputAnalyser.connect(audioContext.destination);
+    outputNodeRef.current = outputNode;
+    outputAnalyserRef.current = outputAnalyser;
+    nextStartTimeRef.current = audioContext.currentTime;
+
+    if (stream) {
+      try {
+        applyMicMode(micModeRef.current);
+        micCaptureRef.current = await startMicCapture(stream, handleMicChunk);
+      } catch (err) {
+        if (generation === generationRef.current) fail(err);
+        return;
+      }
+      if (generation !== generationRef.current) {
+        // Released while the worklet was loading.
+        micCaptureRef.current?.stop();
+        micCaptureRef.current = null;
+        return;
+      }
+      setMicCapturing(true);
+    }
+
+    if (!(await openSession())) return;
+    transition('OPENED');
+    startFrameCapture();
+    startPlaybackEvents();
+  };
+
+  const sendText = (text: string) => {
+    const message = text.trim();
+    if (!message || statusRef.current !== 'live' || !sessionRef.current) {
+      return;
+    }
+    sessionRef.current.sendClientContent({
+      turns: [{role: 'user', parts: [{text: message}]}],
+      turnComplete: true,
+    });
+    const videoTime = videoRef.current?.currentTime ?? 0;
+    setTranscript((turns) =>
+      appendTranscriptTurn(turns, 'user', message, videoTime),
+    );
+  };
+
+  const disconnect = () => {
+    if (!transition('STOP')) return;
+    releaseResources();
+    transition('CLOSED');
+  };
+
+  // Clean up on unmount
+  useEffect(() => {
+    return () => {
+      disconnect();
+    };
+  }, []);
+
+  return {
+    status,
+    error,
+    micActive:
+      status === 'live' &&
+      micCapturing &&
+      (micMode === 'always-on' ||
+        (micMode === 'push-to-talk' && pushToTalkPressed)),
+    micMode,
+    setMicMode,
+    setPushToTalk,
+    voiceActivityDetection,
+    setVoiceActivityDetection,
+    getAnalysers: () => ({
+      user: micCaptureRef.current?.analyser ?? null,
+      companion: outputAnalyserRef.current,
+    }),
+    reconnectAttempt,
+    transcript,
+    inputMode,
+    speakReplies,
+    setSpeakReplies,
+    speechPlaybackPolicy,
+    setSpeechPlaybackPolicy,
+    connect,
+    disconnect,
+    sendText,
+  };
+}
@@ -0,0 +1,63 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {useEffect, useRef, useState} from 'react';
+import {Video} from '../types';
+import {loadVideoElement, releaseVideoElement} from '../utils/videoElement';
+import {
+  MediaMetadata,
+  metadataChanges,
+  readMediaMetadata,
+} from '../utils/videoMetadata';
+
+/**
+ * Reads the duration and frame size of every video in `videos` that doesn't
+ * know them yet, one at a time in the background, and reports what was found
+ * through `onProbed`. Videos that fail to load are skipped for the rest of
+ * the session.
+ */
+export function useMediaProbe(
+  videos: Video[],
+  onProbed: (id: string, metadata: MediaMetadata) => void,
+) {
+  const [failedIds, setFailedIds] = useState<string[]>([]);
+  const onProbedRef = useRef(onProbed);
+  onProbedRef.current = onProbed;
+
+  const next = videos.find(
+    (v) =>
+      (v.duration === undefined || v.width === undefined) &&
+      v.videoUrl &&
+      !failedIds.includes(v.id),
+  );
+
+  useEffect(() => {
+    if (!next) return;
+    let cancelled = false;
+    let element: HTMLVideoElement | null = null;
+    loadVideoElement(next.videoUrl)
+      .then((loaded) => {
+        element = loaded;
+        if (cancelled) return;
+        const metadata = readMediaMetadata(loaded);
+        const changes = metadataChanges(next, metadata);
+        if (!changes || metadata.duration === undefined) {
+          throw new Error('No duration or frame size in the media');
+        }
+        onProbedRef.current(next.id, changes);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        console.warn(`Could not read the media of "${next.title}"`, err);
+        setFailedIds((ids) => [...ids, next.id]);
+      })
+      .finally(() => {
+        if (element) releaseVideoElement(element);
+      });
+    return () => {
+      cancelled = true;
+    };
+    // Restart only when a different video comes up next.
+  }, [next?.id, next?.videoUrl]);
+}
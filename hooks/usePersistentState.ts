@@ -0,0 +1,35 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {useState} from 'react';
+
+/**
+ * Like `useState`, but the value is kept in localStorage under `key` and
+ * restored on the next visit. Falls back to `initial` when storage is
+ * unavailable or holds something unreadable.
+ */
+export function usePersistentState<T>(
+  key: string,
+  initial: T,
+): [T, (value: T) => void] {
+  const [value, setValue] = useState<T>(() => {
+    try {
+      const stored = localStorage.getItem(key);
+      return stored === null ? initial : (JSON.parse(stored) as T);
+    } catch {
+      return initial;
+    }
+  });
+
+  const update = (next: T) => {
+    setValue(next);
+    try {
+      localStorage.setItem(key, JSON.stringify(next));
+    } catch {
+      // Storage is full or unavailable; the value lasts for this visit only.
+    }
+  };
+
+  return [value, update];
+}
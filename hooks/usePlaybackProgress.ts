@@ -0,0 +1,56 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, {useEffect, useRef} from 'react';
+
+/** How often the position is saved during playback. */
+const SAVE_INTERVAL_MS = 5000;
+
+/**
+ * Reports the playback position of the video in `videoRef` every few
+ * seconds while it plays, and whenever it pauses or ends, the page is hidden
+ * or the player goes away. Nothing is reported while `enabled` is false.
+ */
+export function usePlaybackProgress(
+  videoRef: React.RefObject<HTMLVideoElement | null>,
+  videoId: string,
+  onProgress: (position: number, duration: number) => void,
+  enabled = true,
+) {
+  const onProgressRef = useRef(onProgress);
+  onProgressRef.current = onProgress;
+  const enabledRef = useRef(enabled);
+  enabledRef.current = enabled;
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    let lastSaved = Date.now();
+
+    const save = () => {
+      const {duration} = video;
+      if (!enabledRef.current || !Number.isFinite(duration) || duration <= 0) {
+        return;
+      }
+      lastSaved = Date.now();
+      const position = video.ended ? duration : video.currentTime;
+      onProgressRef.current(position, duration);
+    };
+    const handleTimeUpdate = () => {
+      if (Date.now() - lastSaved >= SAVE_INTERVAL_MS) save();
+    };
+
+    video.addEventListener('timeupdate', handleTimeUpdate);
+    video.addEventListener('pause', save);
+    video.addEventListener('ended', save);
+    window.addEventListener('pagehide', save);
+    return () => {
+      video.removeEventListener('timeupdate', handleTimeUpdate);
+      video.removeEventListener('pause', save);
+      video.removeEventListener('ended', save);
+      window.removeEventListener('pagehide', save);
+      save();
+    };
+  }, [videoId]);
+}
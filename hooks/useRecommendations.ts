@@ -0,0 +1,24 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {useMemo, useState} from 'react';
+import {createRecommender} from '../services/recommender';
+import {Video, WatchProgress} from '../types';
+
+/**
+ * Ranks the rest of `catalog` as what to watch after `video`, best first,
+ * taking the viewer's watch `history` into account. Only videos whose text
+ * changed are re-read when the catalog updates.
+ */
+export function useRecommendations(
+  video: Video,
+  catalog: Video[],
+  history: WatchProgress[] = [],
+): Video[] {
+  const [recommender] = useState(createRecommender);
+  return useMemo(() => {
+    recommender.sync(catalog);
+    return recommender.recommend(video, {history});
+  }, [video, catalog, history]);
+}
@@ -0,0 +1,126 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {useEffect, useRef, useState} from 'react';
+import {GENERATION_CONFIG} from '../constants';
+import {
+  createVideoGenerator,
+  GenerationError,
+  GenerationProgress,
+} from '../services/videoGenerator';
+import {Video} from '../types';
+import {withDerivedMetadata} from '../utils/videoMetadata';
+
+/** A failed remix, shaped for `ErrorModal`. */
+export interface RemixFailure {
+  message: string[];
+  needsApiKey: boolean;
+}
+
+/** A generated remix, with its file when the generator downloaded one. */
+export interface RemixResult {
+  video: Video;
+  media?: Blob;
+}
+
+export interface RemixJob {
+  /** Progress of the running job, or null when none is running. */
+  progress: GenerationProgress | null;
+  failure: RemixFailure | null;
+  /**
+   * Generates a remix of `parent` from `prompt`. Resolves to the new video,
+   * or null if the job failed or was cancelled.
+   */
+  start: (parent: Video, prompt: string) => Promise<RemixResult | null>;
+  cancel: () => void;
+  /** Reports that a generated remix could not be saved to the catalog. */
+  reportSaveFailure: (err: unknown) => void;
+  dismissFailure: () => void;
+}
+
+function describeFailure(
+  err: unknown,
+  summary = 'We could not generate your remix.',
+): RemixFailure {
+  const message = err instanceof Error ? err.message : String(err);
+  return {
+    message: [summary, message],
+    needsApiKey: err instanceof GenerationError && err.needsApiKey,
+  };
+}
+
+/**
+ * Runs one remix generation at a time and tracks its progress and failure.
+ * A new generator is created per job, so a key selected after a failure is
+ * picked up by the retry.
+ */
+export function useRemixJob(): RemixJob {
+  const [progress, setProgress] = useState<GenerationProgress | null>(null);
+  const [failure, setFailure] = useState<RemixFailure | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const start = async (parent: Video, prompt: string) => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setFailure(null);
+    setProgress({stage: 'submitting', fraction: 0, elapsedMs: 0});
+
+    try {
+      const clip = await createVideoGenerator(GENERATION_CONFIG).generate(
+        prompt,
+        {
+          onProgress: (p) => {
+            if (!controller.signal.aborted) setProgress(p);
+          },
+          signal: controller.signal,
+        },
+      );
+      if (controller.signal.aborted) return null;
+      const video = withDerivedMetadata({
+        id: `remix-${Date.now().toString(36)}`,
+        // Blob-backed clips get their URL once stored in the catalog.
+        videoUrl: clip.videoUrl ?? '',
+        title: `${parent.title} (Remix)`,
+        description: prompt,
+        parentId: parent.id,
+        originalPrompt: parent.description,
+        generationSettings: clip.settings,
+        createdAt: clip.settings.generatedAt,
+      });
+      return {video, media: clip.media};
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        console.error('Remix generation failed:', err);
+        setFailure(describeFailure(err));
+      }
+      return null;
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setProgress(null);
+      }
+    }
+  };
+
+  const cancel = () => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setProgress(null);
+  };
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  return {
+    progress,
+    failure,
+    start,
+    cancel,
+    reportSaveFailure: (err) => {
+      console.error('Saving the remix failed:', err);
+      setFailure(describeFailure(err, 'We could not save your remix.'));
+    },
+    dismissFailure: () => setFailure(null),
+  };
+}
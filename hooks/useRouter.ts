@@ -0,0 +1,82 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, {useEffect, useState} from 'react';
+import {parseRoute, Route, routeUrl} from '../services/routes';
+
+export interface Router {
+  route: Route;
+  /**
+   * Shows `route` and adds it to the browser history, or with `replace`,
+   * swaps it in for the current entry.
+   */
+  navigate(route: Route, options?: {replace?: boolean}): void;
+  /**
+   * Goes back a page if the viewer came from within the app, otherwise
+   * replaces this page with `fallback`.
+   */
+  back(fallback: Route): void;
+  /** Props for an `<a>` that opens `route` without reloading the page. */
+  link(route: Route): {
+    href: string;
+    onClick: (event: React.MouseEvent) => void;
+  };
+}
+
+/** How many entries of the browser history belong to this visit. */
+function historyDepth(): number {
+  const depth = (window.history.state as {depth?: unknown} | null)?.depth;
+  return typeof depth === 'number' ? depth : 0;
+}
+
+/**
+ * Keeps the current route in sync with the address bar, so pages can be
+ * bookmarked and the back and forward buttons work.
+ */
+export function useRouter(): Router {
+  const [route, setRoute] = useState(() => parseRoute(window.location));
+
+  useEffect(() => {
+    const handlePopState = () => setRoute(parseRoute(window.location));
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  const navigate = (next: Route, {replace = false} = {}) => {
+    const url = routeUrl(next);
+    if (replace) {
+      window.history.replaceState({depth: historyDepth()}, '', url);
+    } else {
+      window.history.pushState({depth: historyDepth() + 1}, '', url);
+      window.scrollTo(0, 0);
+    }
+    setRoute(next);
+  };
+
+  return {
+    route,
+    navigate,
+    back: (fallback) => {
+      if (historyDepth() > 0) window.history.back();
+      else navigate(fallback, {replace: true});
+    },
+    link: (target) => ({
+      href: routeUrl(target),
+      onClick: (event) => {
+        // Let the browser open new tabs and windows itself.
+        if (
+          event.button !== 0 ||
+          event.metaKey ||
+          event.ctrlKey ||
+          event.shiftKey ||
+          event.altKey
+        ) {
+          return;
+        }
+        event.preventDefault();
+        navigate(target);
+      },
+    }),
+  };
+}
@@ -0,0 +1,46 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {useEffect, useRef, useState} from 'react';
+import {getChapters} from '../services/sceneIndex';
+import {Chapter, Video} from '../types';
+
+/**
+ * Indexes the chapters of every video in `videos` that has none yet, one at a
+ * time in the background, and reports each result through `onIndexed`. The
+ * video with `priorityId` (usually the one playing) goes first. Videos that
+ * fail to index are skipped for the rest of the session.
+ */
+export function useSceneIndex(
+  videos: Video[],
+  onIndexed: (id: string, chapters: Chapter[]) => void,
+  priorityId?: string,
+) {
+  const [failedIds, setFailedIds] = useState<string[]>([]);
+  const onIndexedRef = useRef(onIndexed);
+  onIndexedRef.current = onIndexed;
+
+  const pending = videos.filter(
+    (v) => !v.chapters && !failedIds.includes(v.id),
+  );
+  const next = pending.find((v) => v.id === priorityId) ?? pending[0];
+
+  useEffect(() => {
+    if (!next) return;
+    const controller = new AbortController();
+    getChapters(next, controller.signal)
+      .then((chapters) => {
+        if (!controller.signal.aborted) {
+          onIndexedRef.current(next.id, chapters);
+        }
+      })
+      .catch((err) => {
+        if (controller.signal.aborted) return;
+        console.warn(`Could not index "${next.title}"`, err);
+        setFailedIds((ids) => [...ids, next.id]);
+      });
+    return () => controller.abort();
+    // Restart only when a different video comes up next.
+  }, [next?.id, next?.videoUrl]);
+}
@@ -0,0 +1,80 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, {useEffect} from 'react';
+
+/** How far the follower may drift from the leader before it is corrected. */
+const DRIFT_TOLERANCE_SEC = 0.25;
+
+type Handlers = Partial<Record<keyof HTMLMediaElementEventMap, () => void>>;
+
+function listen(video: HTMLVideoElement, handlers: Handlers) {
+  const entries = Object.entries(handlers) as [string, () => void][];
+  entries.forEach(([type, handler]) => video.addEventListener(type, handler));
+  return () => {
+    entries.forEach(([type, handler]) =>
+      video.removeEventListener(type, handler),
+    );
+  };
+}
+
+function seekTo(video: HTMLVideoElement, time: number) {
+  const end = Number.isFinite(video.duration) ? video.duration : time;
+  video.currentTime = Math.min(time, end);
+}
+
+/**
+ * Keeps two videos playing in step: play, pause, seeks and speed changes on
+ * either are applied to the other, and the follower is nudged back whenever
+ * it drifts from the leader. Each video keeps its own native controls.
+ */
+export function useSyncedVideos(
+  leaderRef: React.RefObject<HTMLVideoElement | null>,
+  followerRef: React.RefObject<HTMLVideoElement | null>,
+) {
+  useEffect(() => {
+    const leader = leaderRef.current;
+    const follower = followerRef.current;
+    if (!leader || !follower) return;
+
+    // Each handler is a no-op once the other video has caught up, so
+    // mirroring in both directions cannot loop.
+    const mirror = (from: HTMLVideoElement, to: HTMLVideoElement) =>
+      listen(from, {
+        play: () => {
+          if (to.paused) to.play().catch(() => {});
+        },
+        pause: () => {
+          if (!to.paused) to.pause();
+        },
+        seeked: () => {
+          if (Math.abs(to.currentTime - from.currentTime) > 0.05) {
+            seekTo(to, from.currentTime);
+          }
+        },
+        ratechange: () => {
+          if (to.playbackRate !== from.playbackRate) {
+            to.playbackRate = from.playbackRate;
+          }
+        },
+      });
+
+    const stopLeader = mirror(leader, follower);
+    const stopFollower = mirror(follower, leader);
+    const stopDrift = listen(leader, {
+      timeupdate: () => {
+        if (follower.paused || follower.seeking) return;
+        const drift = Math.abs(follower.currentTime - leader.currentTime);
+        if (drift > DRIFT_TOLERANCE_SEC) {
+          seekTo(follower, leader.currentTime);
+        }
+      },
+    });
+    return () => {
+      stopLeader();
+      stopFollower();
+      stopDrift();
+    };
+  }, [leaderRef, followerRef]);
+}
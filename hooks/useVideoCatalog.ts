@@ -0,0 +1,84 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {useEffect, useState} from 'react';
+import {VideoChanges, VideoRepository} from '../services/videoRepository';
+import {Video} from '../types';
+
+export interface VideoCatalog {
+  /** All videos, most recently added first. */
+  videos: Video[];
+  loading: boolean;
+  error: string | null;
+  /** Stores a new video (with its file, if given) and returns it as stored. */
+  add: (video: Video, media?: Blob) => Promise<Video>;
+  update: (id: string, changes: VideoChanges) => Promise<void>;
+  remove: (id: string) => Promise<void>;
+}
+
+/**
+ * Loads the catalog from `repository` and keeps it in React state. Changes
+ * show up immediately and are written to the repository in the background;
+ * write failures are logged, as the change still holds for this session.
+ */
+export function useVideoCatalog(repository: VideoRepository): VideoCatalog {
+  const [videos, setVideos] = useState<Video[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    repository
+      .list()
+      .then((stored) => {
+        if (!cancelled) setVideos(stored);
+      })
+      .catch((err) => {
+        console.error('Failed to load the catalog:', err);
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : String(err));
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [repository]);
+
+  const add = async (video: Video, media?: Blob) => {
+    let stored: Video;
+    try {
+      stored = await repository.put(video, media);
+    } catch (err) {
+      console.error(`Failed to save video ${video.id}:`, err);
+      stored = media ? {...video, videoUrl: URL.createObjectURL(media)} : video;
+    }
+    setVideos((prev) => [stored, ...prev.filter((v) => v.id !== stored.id)]);
+    return stored;
+  };
+
+  const update = async (id: string, changes: VideoChanges) => {
+    setVideos((prev) =>
+      prev.map((v) => (v.id === id ? {...v, ...changes} : v)),
+    );
+    try {
+      await repository.update(id, changes);
+    } catch (err) {
+      console.error(`Failed to save changes to video ${id}:`, err);
+    }
+  };
+
+  const remove = async (id: string) => {
+    setVideos((prev) => prev.filter((v) => v.id !== id));
+    try {
+      await repository.delete(id);
+    } catch (err) {
+      console.error(`Failed to delete video ${id}:`, err);
+    }
+  };
+
+  return {videos, loading, error, add, update, remove};
+}
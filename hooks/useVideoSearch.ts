@@ -0,0 +1,29 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {useCallback, useRef, useState} from 'react';
+import {createSearchIndex, SearchResults} from '../services/searchIndex';
+import {Video} from '../types';
+
+/** Searches the catalog for a query, returning at most `limit` results. */
+export type VideoSearch = (query: string, limit?: number) => SearchResults;
+
+const NO_RESULTS: SearchResults = {results: [], total: 0};
+
+/**
+ * Returns a search over `videos`, stable across renders so components can
+ * memoize on it. The index is built on the first search and then only
+ * updated for videos whose title or prompt changed, so typing stays fast in
+ * large catalogs.
+ */
+export function useVideoSearch(videos: Video[]): VideoSearch {
+  const [index] = useState(createSearchIndex);
+  const videosRef = useRef(videos);
+  videosRef.current = videos;
+  return useCallback((query, limit) => {
+    if (!query.trim()) return NO_RESULTS;
+    index.sync(videosRef.current);
+    return index.search(query, limit);
+  }, []);
+}
@@ -0,0 +1,48 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {useState} from 'react';
+import {readVideoFile, UploadedVideo} from '../services/videoUpload';
+
+export interface VideoUpload {
+  /** Name of the file being read, or null when idle. */
+  uploading: string | null;
+  /** Messages for files that could not be uploaded, for `ErrorModal`. */
+  failure: string[] | null;
+  upload: (files: Iterable<File>) => Promise<void>;
+  dismissFailure: () => void;
+}
+
+/**
+ * Reads dropped or picked files one at a time and hands each finished entry
+ * to `onUploaded`. Files that fail are collected into one failure report.
+ */
+export function useVideoUpload(
+  onUploaded: (upload: UploadedVideo) => Promise<unknown> | void,
+): VideoUpload {
+  const [uploading, setUploading] = useState<string | null>(null);
+  const [failure, setFailure] = useState<string[] | null>(null);
+
+  const upload = async (files: Iterable<File>) => {
+    const errors: string[] = [];
+    for (const file of Array.from(files)) {
+      setUploading(file.name);
+      try {
+        await onUploaded(await readVideoFile(file));
+      } catch (err) {
+        console.error(`Upload of ${file.name} failed:`, err);
+        errors.push(err instanceof Error ? err.message : String(err));
+      }
+    }
+    setUploading(null);
+    if (errors.length > 0) setFailure(errors);
+  };
+
+  return {
+    uploading,
+    failure,
+    upload,
+    dismissFailure: () => setFailure(null),
+  };
+}
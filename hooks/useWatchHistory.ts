@@ -0,0 +1,47 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {useCallback, useEffect, useState} from 'react';
+import {
+  loadWatchHistory,
+  saveWatchHistory,
+  WatchHistory,
+} from '../services/watchHistory';
+
+export interface WatchHistoryState {
+  history: WatchHistory;
+  /** Saves how far the viewer got in a video. */
+  record(videoId: string, position: number, duration: number): void;
+  /** Forgets a video, e.g. to take it off "Continue Watching". */
+  remove(videoId: string): void;
+}
+
+/**
+ * The viewer's watch history, kept in localStorage.
+ */
+export function useWatchHistory(): WatchHistoryState {
+  const [history, setHistory] = useState<WatchHistory>(loadWatchHistory);
+
+  useEffect(() => saveWatchHistory(history), [history]);
+
+  const record = useCallback(
+    (videoId: string, position: number, duration: number) =>
+      setHistory((h) => ({
+        ...h,
+        [videoId]: {videoId, position, duration, updatedAt: Date.now()},
+      })),
+    [],
+  );
+
+  const remove = useCallback(
+    (videoId: string) =>
+      setHistory((h) => {
+        const {[videoId]: _removed, ...rest} = h;
+        return rest;
+      }),
+    [],
+  );
+
+  return {history, record, remove};
+}
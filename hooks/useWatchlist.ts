@@ -0,0 +1,70 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {useEffect, useState} from 'react';
+import {
+  loadWatchlist,
+  moveItem,
+  parseWatchlistExport,
+  saveWatchlist,
+} from '../services/watchlist';
+
+export interface WatchlistImportResult {
+  /** Videos added to the list. */
+  added: number;
+  /** Videos in the file that are not in this catalog. */
+  missing: number;
+}
+
+export interface Watchlist {
+  /** Saved video ids, in the viewer's order. */
+  ids: string[];
+  has(id: string): boolean;
+  /** Adds the video to the end of the list, or takes it off. */
+  toggle(id: string): void;
+  /** Moves the video to where `targetId` is in the list. */
+  move(id: string, targetId: string): void;
+  /**
+   * Adds the videos of an exported list that are in `catalogIds` and not
+   * saved yet. Throws if the text is not a watchlist.
+   */
+  importList(text: string, catalogIds: string[]): WatchlistImportResult;
+}
+
+/**
+ * The viewer's "My List", kept in localStorage.
+ */
+export function useWatchlist(): Watchlist {
+  const [ids, setIds] = useState<string[]>(loadWatchlist);
+
+  useEffect(() => saveWatchlist(ids), [ids]);
+
+  return {
+    ids,
+    has: (id) => ids.includes(id),
+    toggle: (id) =>
+      setIds((current) =>
+        current.includes(id)
+          ? current.filter((other) => other !== id)
+          : [...current, id],
+      ),
+    move: (id, targetId) =>
+      setIds((current) => moveItem(current, id, targetId)),
+    importList: (text, catalogIds) => {
+      const imported = parseWatchlistExport(text);
+      const known = new Set(catalogIds);
+      const added = [...new Set(imported)].filter(
+        (id) => known.has(id) && !ids.includes(id),
+      );
+      setIds((current) => [
+        ...current,
+        ...added.filter((id) => !current.includes(id)),
+      ]);
+      return {
+        added: added.length,
+        missing: imported.filter((id) => !known.has(id)).length,
+      };
+    },
+  };
+}
@@ -0,0 +1,71 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {Video} from '../types';
+
+export type BrowseCategory = 'movies' | 'series' | 'new';
+
+/** The header's browse pages, by the name used in their URL. */
+export const BROWSE_CATEGORIES: Record<
+  BrowseCategory,
+  {title: string; description: string}
+> = {
+  movies: {
+    title: 'Movies',
+    description: 'Videos that stand on their own.',
+  },
+  series: {
+    title: 'Series',
+    description: 'Videos and their remixes, each family together.',
+  },
+  new: {
+    title: 'New & Popular',
+    description: 'The latest videos, newest first.',
+  },
+};
+
+export function isBrowseCategory(name: string): name is BrowseCategory {
+  return Object.hasOwn(BROWSE_CATEGORIES, name);
+}
+
+/** The first video of the remix family `video` belongs to. */
+function rootOf(video: Video, byId: Map<string, Video>): Video {
+  const seen = new Set<string>();
+  let root = video;
+  while (root.parentId && !seen.has(root.id)) {
+    seen.add(root.id);
+    const parent = byId.get(root.parentId);
+    if (!parent) break;
+    root = parent;
+  }
+  return root;
+}
+
+/**
+ * The videos listed under `category`. A series is a video that has been
+ * remixed together with all its remixes; every other video is a movie.
+ */
+export function videosInCategory(
+  category: BrowseCategory,
+  videos: Video[],
+): Video[] {
+  if (category === 'new') {
+    return [...videos].sort((a, b) => (b.createdAt ?? 0) - (a.createdAt ?? 0));
+  }
+  const byId = new Map(videos.map((v) => [v.id, v]));
+  const remixed = new Set(videos.map((v) => v.parentId));
+  const inSeries = (v: Video) =>
+    (v.parentId !== undefined && byId.has(v.parentId)) || remixed.has(v.id);
+  if (category === 'movies') return videos.filter((v) => !inSeries(v));
+
+  // Keep the catalog's order of families, with each family oldest first.
+  const families = new Map<string, Video[]>();
+  for (const video of videos.filter(inSeries)) {
+    const root = rootOf(video, byId).id;
+    families.set(root, [...(families.get(root) ?? []), video]);
+  }
+  return [...families.values()].flatMap((family) =>
+    family.sort((a, b) => (a.createdAt ?? 0) - (b.createdAt ?? 0)),
+  );
+}
@@ -0,0 +1,163 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {
+  FunctionCall,
+  FunctionDeclaration,
+  FunctionResponse,
+  Tool,
+  Type,
+} from '@google/genai';
+import {Video} from '../types';
+
+/** What the companion's tools are allowed to act on. */
+export interface PlayerControls {
+  video: HTMLVideoElement | null;
+  catalog: Video[];
+  /** Switches to another video; omit to hide the `playVideo` tool. */
+  playVideo?: (video: Video) => void;
+}
+
+const MIN_PLAYBACK_RATE = 0.25;
+const MAX_PLAYBACK_RATE = 4;
+
+const seekDeclaration: FunctionDeclaration = {
+  name: 'seek',
+  description:
+    'Jumps the current video to a position. Use it when the viewer asks to go back or forward to a moment.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      seconds: {
+        type: Type.NUMBER,
+        description: 'Position from the start of the video, in seconds.',
+      },
+    },
+    required: ['seconds'],
+  },
+};
+
+const pauseDeclaration: FunctionDeclaration = {
+  name: 'pause',
+  description: 'Pauses the current video.',
+};
+
+const playDeclaration: FunctionDeclaration = {
+  name: 'play',
+  description: 'Resumes playback of the current video.',
+};
+
+const setPlaybackRateDeclaration: FunctionDeclaration = {
+  name: 'setPlaybackRate',
+  description: `Changes the playback speed of the current video (1 is normal speed, allowed range ${MIN_PLAYBACK_RATE} to ${MAX_PLAYBACK_RATE}).`,
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      rate: {type: Type.NUMBER, description: 'Playback speed multiplier.'},
+    },
+    required: ['rate'],
+  },
+};
+
+function playVideoDeclaration(catalog: Video[]): FunctionDeclaration {
+  const listing = catalog.map((v) => `${v.id}: ${v.title}`).join('; ');
+  return {
+    name: 'playVideo',
+    description: `Switches to another video from the catalog, e.g. when the viewer asks for something similar. This ends the current conversation. Catalog (id: title): ${listing}`,
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        id: {type: Type.STRING, description: 'Catalog id of the video.'},
+      },
+      required: ['id'],
+    },
+  };
+}
+
+/**
+ * The player-control tools to declare in the Live config.
+ */
+export function buildPlayerTools(controls: PlayerControls): Tool[] {
+  const declarations = [
+    seekDeclaration,
+    pauseDeclaration,
+    playDeclaration,
+    setPlaybackRateDeclaration,
+  ];
+  if (controls.playVideo) {
+    declarations.push(playVideoDeclaration(controls.catalog));
+  }
+  return [{functionDeclarations: declarations}];
+}
+
+async function runPlayerTool(
+  call: FunctionCall,
+  controls: PlayerControls,
+): Promise<Record<string, unknown>> {
+  const {video} = controls;
+  const args = call.args ?? {};
+
+  if (call.name === 'playVideo') {
+    const target = controls.catalog.find((v) => v.id === String(args.id));
+    if (!target || !controls.playVideo) {
+      return {error: `No video with id "${args.id}"`};
+    }
+    const playVideo = controls.playVideo;
+    // Let the response reach the model before the player switches away.
+    setTimeout(() => playVideo(target), 0);
+    return {result: `Now playing "${target.title}"`};
+  }
+
+  if (!video) return {error: 'The player is not ready'};
+
+  switch (call.name) {
+    case 'seek': {
+      const seconds = Number(args.seconds);
+      if (!Number.isFinite(seconds)) {
+        return {error: 'seconds must be a number'};
+      }
+      const limit = Number.isFinite(video.duration) ? video.duration : seconds;
+      video.currentTime = Math.min(Math.max(0, seconds), limit);
+      return {result: `Moved to ${video.currentTime.toFixed(1)}s`};
+    }
+    case 'pause':
+      video.pause();
+      return {result: 'Paused'};
+    case 'play':
+      await video.play();
+      return {result: 'Playing'};
+    case 'setPlaybackRate': {
+      const rate = Number(args.rate);
+      if (!Number.isFinite(rate)) return {error: 'rate must be a number'};
+      video.playbackRate = Math.min(
+        Math.max(rate, MIN_PLAYBACK_RATE),
+        MAX_PLAYBACK_RATE,
+      );
+      return {result: `Playback rate is ${video.playbackRate}`};
+    }
+    default:
+      return {error: `Unknown function "${call.name}"`};
+  }
+}
+
+/**
+ * Carries out the calls in a `toolCall` message and builds the responses to
+ * send back. A failing call is reported to the model instead of thrown.
+ */
+export async function executePlayerTools(
+  calls: FunctionCall[],
+  controls: PlayerControls,
+): Promise<FunctionResponse[]> {
+  return Promise.all(
+    calls.map(async (call) => {
+      let response: Record<string, unknown>;
+      try {
+        response = await runPlayerTool(call, controls);
+      } catch (err) {
+        response = {error: err instanceof Error ? err.message : String(err)};
+      }
+      return {id: call.id, name: call.name, response};
+    }),
+  );
+}
@@ -0,0 +1,80 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {
+  GoogleGenAI,
+  LiveCallbacks,
+  LiveConnectConfig,
+  LiveSendClientContentParameters,
+  LiveSendRealtimeInputParameters,
+  LiveSendToolResponseParameters,
+} from '@google/genai';
+import {CompanionConfig} from '../types';
+import {
+  createMockTransport,
+  createWebSocketTransport,
+  MOCK_SCRIPTS,
+} from './mockCompanionTransport';
+
+/**
+ * The subset of a Live API session the companion relies on. The Gemini
+ * `Session` satisfies it as-is, so stand-ins only need to mimic these calls.
+ */
+export interface CompanionSession {
+  sendRealtimeInput(params: LiveSendRealtimeInputParameters): void;
+  sendClientContent(params: LiveSendClientContentParameters): void;
+  sendToolResponse(params: LiveSendToolResponseParameters): void;
+  close(): void;
+}
+
+/**
+ * Everything needed to open a companion session apart from the model, which
+ * is owned by the transport.
+ */
+export interface CompanionConnectParams {
+  config: LiveConnectConfig;
+  callbacks: LiveCallbacks;
+}
+
+/**
+ * Opens Live sessions for the AI companion. Implementations resolve once the
+ * connection is open and report server traffic through the given callbacks.
+ */
+export interface CompanionTransport {
+  connect(params: CompanionConnectParams): Promise<CompanionSession>;
+}
+
+/**
+ * Transport backed by the Gemini Live API.
+ */
+export function createGeminiTransport(
+  apiKey: string | undefined,
+  model: string,
+): CompanionTransport {
+  return {
+    connect: ({config, callbacks}) =>
+      new GoogleGenAI({apiKey}).live.connect({model, config, callbacks}),
+  };
+}
+
+/**
+ * Picks the transport named by the companion config.
+ */
+export function createCompanionTransport(
+  config: CompanionConfig,
+): CompanionTransport {
+  switch (config.transport) {
+    case 'mock': {
+      const script = MOCK_SCRIPTS[config.mockScript];
+      if (!script) {
+        throw new Error(`Unknown mock companion script "${config.mockScript}"`);
+      }
+      return createMockTransport(script);
+    }
+    case 'websocket':
+      return createWebSocketTransport(config.mockServerUrl);
+    case 'gemini':
+      return createGeminiTransport(process.env.API_KEY, config.model);
+  }
+}
@@ -0,0 +1,217 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {bytesToBase64} from '../utils/audio';
+import {
+  createProbeContext,
+  lumaDifference,
+  probeLuma,
+} from '../utils/frames';
+
+/** A JPEG frame ready to send as Live API media. */
+export interface SampledFrame {
+  mimeType: string;
+  data: string;
+  /** Encoded size, counted against the byte budget. */
+  bytes: number;
+  /** True when the frame was sent because the picture changed sharply. */
+  sceneChange: boolean;
+  /** Playback position the frame shows, in seconds. */
+  time: number;
+}
+
+export interface FrameSampler {
+  stop(): void;
+}
+
+export interface FrameSamplerOptions {
+  /** Average frame bytes per second to stay within. */
+  bytesPerSecond: number;
+  /** Longest gap between frames while the picture keeps changing. */
+  maxIntervalMs?: number;
+  /** Shortest gap between frames, even across rapid cuts. */
+  minIntervalMs?: number;
+  /** Mean pixel difference (0–1) that counts as a cut. */
+  sceneChangeThreshold?: number;
+  /** Mean pixel difference (0–1) below which a frame is a duplicate. */
+  duplicateThreshold?: number;
+}
+
+/** Encoded widths and JPEG qualities, from sharpest to cheapest. */
+const QUALITY_LADDER = [
+  {width: 768, quality: 0.7},
+  {width: 640, quality: 0.6},
+  {width: 480, quality: 0.5},
+  {width: 320, quality: 0.45},
+  {width: 240, quality: 0.4},
+];
+const START_LEVEL = 2;
+
+/** How often the probe runs while frames are being presented. */
+const PROBE_INTERVAL_MS = 100;
+/** Window over which the byte rate is averaged. */
+const RATE_WINDOW_MS = 5000;
+
+type VideoWithFrameCallback = HTMLVideoElement & {
+  requestVideoFrameCallback?: (callback: () => void) => number;
+  cancelVideoFrameCallback?: (handle: number) => void;
+};
+
+function encodeJpeg(canvas: HTMLCanvasElement, quality: number) {
+  return new Promise<Blob | null>((resolve) => {
+    canvas.toBlob(resolve, 'image/jpeg', quality);
+  });
+}
+
+/**
+ * Samples `video` for the companion. A tiny grayscale probe is compared with
+ * the last frame sent: sharp changes are sent straight away as cuts, near
+ * duplicates are dropped, and anything in between is sent at most every
+ * `maxIntervalMs`. Resolution and JPEG quality step down the ladder when the
+ * byte rate goes over `bytesPerSecond`, and back up when there is room.
+ *
+ * Runs from `requestVideoFrameCallback` where available, so nothing happens
+ * while no new frames are presented (e.g. while paused); other browsers poll
+ * on a timer instead.
+ */
+export function startFrameSampler(
+  video: HTMLVideoElement,
+  onFrame: (frame: SampledFrame) => void,
+  {
+    bytesPerSecond,
+    maxIntervalMs = 1000,
+    minIntervalMs = 250,
+    sceneChangeThreshold = 0.12,
+    duplicateThreshold = 0.015,
+  }: FrameSamplerOptions,
+): FrameSampler {
+  const el = video as VideoWithFrameCallback;
+  const probeCtx = createProbeContext();
+  const frameCanvas = document.createElement('canvas');
+  const frameCtx = frameCanvas.getContext('2d');
+
+  let stopped = false;
+  let encoding = false;
+  let level = START_LEVEL;
+  let lastProbeAt = -Infinity;
+  let lastSentAt = -Infinity;
+  let lastSentLuma: Uint8Array | null = null;
+  let forceNext = true;
+  // Bytes sent within the rate window, as [timestamp, bytes] pairs.
+  let sent: [number, number][] = [];
+
+  const currentRate = (now: number) => {
+    sent = sent.filter(([at]) => now - at < RATE_WINDOW_MS);
+    const total = sent.reduce((sum, [, bytes]) => sum + bytes, 0);
+    return total / (RATE_WINDOW_MS / 1000);
+  };
+
+  const adjustLevel = (now: number) => {
+    const rate = currentRate(now);
+    if (rate > bytesPerSecond && level < QUALITY_LADDER.length - 1) {
+      level++;
+    } else if (rate < bytesPerSecond * 0.5 && level > 0) {
+      level--;
+    }
+  };
+
+  const send = async (luma: Uint8Array, sceneChange: boolean, now: number) => {
+    if (!frameCtx) return;
+    const {width, quality} = QUALITY_LADDER[level];
+    const scale = Math.min(1, width / video.videoWidth);
+    frameCanvas.width = Math.round(video.videoWidth * scale);
+    frameCanvas.height = Math.round(video.videoHeight * scale);
+    frameCtx.drawImage(video, 0, 0, frameCanvas.width, frameCanvas.height);
+    const time = video.currentTime;
+
+    lastSentAt = now;
+    lastSentLuma = luma;
+    encoding = true;
+    const blob = await encodeJpeg(frameCanvas, quality);
+    encoding = false;
+    if (!blob || stopped) return;
+
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    if (stopped) return;
+    sent.push([now, bytes.byteLength]);
+    adjustLevel(now);
+    onFrame({
+      mimeType: 'image/jpeg',
+      data: bytesToBase64(bytes),
+      bytes: bytes.byteLength,
+      sceneChange,
+      time,
+    });
+  };
+
+  const probe = () => {
+    const now = performance.now();
+    if (encoding || !probeCtx) return;
+    if (!forceNext && now - lastProbeAt < PROBE_INTERVAL_MS) return;
+    if (video.videoWidth === 0 || video.videoHeight === 0) return;
+    lastProbeAt = now;
+
+    const luma = probeLuma(probeCtx, video);
+    const diff = lastSentLuma ? lumaDifference(luma, lastSentLuma) : 1;
+    const sinceSent = now - lastSentAt;
+    if (sinceSent < minIntervalMs && !forceNext) return;
+
+    const sceneChange = diff >= sceneChangeThreshold;
+    const due = sinceSent >= maxIntervalMs && diff >= duplicateThreshold;
+    // Cuts may go over budget; routine frames wait until there is room.
+    const overBudget = currentRate(now) > bytesPerSecond;
+    if (forceNext || sceneChange || (due && !overBudget)) {
+      forceNext = false;
+      send(luma, sceneChange, now).catch(() => {
+        encoding = false;
+      });
+    }
+  };
+
+  let warned = false;
+  const sample = () => {
+    try {
+      probe();
+    } catch (err) {
+      // E.g. a cross-origin frame tainting the canvas. Keep going, as later
+      // frames may be readable, but only say so once.
+      if (!warned) console.warn('Could not sample a video frame:', err);
+      warned = true;
+    }
+  };
+
+  // A seek always yields a frame, even when the new picture looks similar.
+  const onSeeked = () => {
+    forceNext = true;
+    sample();
+  };
+  video.addEventListener('seeked', onSeeked);
+
+  let handle = 0;
+  if (el.requestVideoFrameCallback) {
+    const onVideoFrame = () => {
+      if (stopped) return;
+      sample();
+      handle = el.requestVideoFrameCallback!(onVideoFrame);
+    };
+    handle = el.requestVideoFrameCallback(onVideoFrame);
+    // The callback only fires for newly presented frames, so send the
+    // current picture once up front in case playback is paused.
+    sample();
+  } else {
+    handle = window.setInterval(sample, PROBE_INTERVAL_MS);
+  }
+
+  return {
+    stop: () => {
+      stopped = true;
+      video.removeEventListener('seeked', onSeeked);
+      if (el.requestVideoFrameCallback) {
+        el.cancelVideoFrameCallback?.(handle);
+      } else {
+        clearInterval(handle);
+      }
+    },
+  };
+}
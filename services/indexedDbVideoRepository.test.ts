@@ -0,0 +1,152 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import 'fake-indexeddb/auto';
+import {IDBFactory} from 'fake-indexeddb';
+import {afterEach, beforeEach, describe, expect, it, vi} from 'vitest';
+import {Video} from '../types';
+import {createIndexedDbVideoRepository} from './indexedDbVideoRepository';
+import {VIDEO_SCHEMA_VERSION} from './videoMigrations';
+import {StoredVideo} from './videoRepository';
+
+function video(id: string, extra: Partial<Video> = {}): Video {
+  return {
+    id,
+    videoUrl: `https://example.com/${id}.mp4`,
+    title: `Video ${id}`,
+    description: 'A calm lake at sunrise',
+    ...extra,
+  };
+}
+
+/** Creates the catalog database as an older build left it. */
+function createDatabase(records: StoredVideo[]): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const req = indexedDB.open('example-catalog', 1);
+    req.onupgradeneeded = () => {
+      const store = req.result.createObjectStore('videos', {keyPath: 'id'});
+      records.forEach((record) => store.put(record));
+    };
+    req.onsuccess = () => {
+      req.result.close();
+      resolve();
+    };
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function readRecord(id: string): Promise<StoredVideo | undefined> {
+  return new Promise((resolve, reject) => {
+    const open = indexedDB.open('example-catalog', 1);
+    open.onsuccess = () => {
+      const db = open.result;
+      const req = db.transaction('videos').objectStore('videos').get(id);
+      req.onsuccess = () => {
+        db.close();
+        resolve(req.result);
+      };
+      req.onerror = () => reject(req.error);
+    };
+    open.onerror = () => reject(open.error);
+  });
+}
+
+describe('createIndexedDbVideoRepository', () => {
+  beforeEach(() => {
+    globalThis.indexedDB = new IDBFactory();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('seeds a new database once', async () => {
+    const first = createIndexedDbVideoRepository([video('a'), video('b')]);
+    await first.delete('a');
+    const second = createIndexedDbVideoRepository([video('a'), video('b')]);
+    expect((await second.list()).map((v) => v.id)).toEqual(['b']);
+  });
+
+  it('keeps concurrent updates to the same video', async () => {
+    const repository = createIndexedDbVideoRepository([video('a')]);
+    await Promise.all([
+      repository.update('a', {duration: 8}),
+      repository.update('a', {width: 1280, height: 720}),
+      repository.update('a', {chapters: []}),
+    ]);
+    expect(await repository.get('a')).toMatchObject({
+      duration: 8,
+      width: 1280,
+      height: 720,
+      chapters: [],
+    });
+  });
+
+  it('rejects updates to a missing video', async () => {
+    const repository = createIndexedDbVideoRepository();
+    await expect(repository.update('nope', {title: 'x'})).rejects.toThrow(
+      'No video with id "nope"',
+    );
+  });
+
+  it('keeps the position of a replaced video', async () => {
+    const repository = createIndexedDbVideoRepository([
+      video('a'),
+      video('b'),
+    ]);
+    await repository.put(video('b', {title: 'Renamed'}));
+    const videos = await repository.list();
+    expect(videos.map((v) => v.id)).toEqual(['a', 'b']);
+    expect(videos[1].title).toBe('Renamed');
+  });
+
+  it('migrates records from an older schema and writes them back', async () => {
+    await createDatabase([
+      {
+        id: 'old',
+        video: video('old', {description: 'Claymation: a robot sighs'}),
+        schemaVersion: 1,
+        addedAt: 1,
+      },
+    ]);
+    const repository = createIndexedDbVideoRepository();
+    const [migrated] = await repository.list();
+    expect(migrated.tags).toEqual(['Claymation']);
+    expect(await readRecord('old')).toMatchObject({
+      schemaVersion: VIDEO_SCHEMA_VERSION,
+      video: {tags: ['Claymation']},
+    });
+  });
+
+  it('keeps one media URL until the media changes', async () => {
+    const revoke = vi.spyOn(URL, 'revokeObjectURL');
+    const repository = createIndexedDbVideoRepository();
+    const {videoUrl} = await repository.put(video('up'), new Blob(['data']));
+    expect(videoUrl).toMatch(/^blob:/);
+
+    // Each read gets a new Blob back from the store.
+    expect((await repository.list())[0].videoUrl).toBe(videoUrl);
+    expect((await repository.get('up'))?.videoUrl).toBe(videoUrl);
+    expect((await repository.update('up', {duration: 8})).videoUrl).toBe(
+      videoUrl,
+    );
+    expect(revoke).not.toHaveBeenCalled();
+
+    const replaced = await repository.put(video('up'), new Blob(['other']));
+    expect(replaced.videoUrl).not.toBe(videoUrl);
+    expect(revoke).toHaveBeenCalledWith(videoUrl);
+
+    await repository.delete('up');
+    expect(revoke).toHaveBeenCalledWith(replaced.videoUrl);
+  });
+
+  it('keeps stored media through updates', async () => {
+    const repository = createIndexedDbVideoRepository();
+    await repository.put(video('up'), new Blob(['data']));
+    await repository.update('up', {title: 'Renamed'});
+    const record = await readRecord('up');
+    expect(await record?.media?.text()).toBe('data');
+    expect(record?.video).toMatchObject({title: 'Renamed', videoUrl: ''});
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {Video} from '../types';
+import {VIDEO_SCHEMA_VERSION} from './videoMigrations';
+import {
+  applyChanges,
+  MediaUrlCache,
+  sortRecords,
+  StoredVideo,
+  toSeedRecords,
+  toStoredVideo,
+  VideoRepository,
+} from './videoRepository';
+
+const DB_NAME = 'example-catalog';
+/** Version of the database layout (object stores), not of `Video`. */
+const DB_VERSION = 1;
+const VIDEO_STORE = 'videos';
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error('Transaction aborted'));
+  });
+}
+
+/**
+ * Opens the catalog database. When it is created for the first time the
+ * `seed` videos are written in the same upgrade, so seeding happens exactly
+ * once per browser and deleted seeds stay deleted.
+ */
+function openDatabase(seed: Video[]): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = (e) => {
+      const db = req.result;
+      if (e.oldVersion < 1) {
+        const store = db.createObjectStore(VIDEO_STORE, {keyPath: 'id'});
+        toSeedRecords(seed).forEach((record) => store.put(record));
+      }
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+    req.onblocked = () =>
+      reject(new Error('The catalog is open in another tab'));
+  });
+}
+
+/**
+ * Keeps the catalog in IndexedDB. Records written by an older build are
+ * migrated to the current `Video` schema when read, and written back.
+ */
+export function createIndexedDbVideoRepository(
+  seed: Video[] = [],
+): VideoRepository {
+  const dbPromise = openDatabase(seed);
+  const media = new MediaUrlCache();
+
+  const store = async (mode: IDBTransactionMode) => {
+    const db = await dbPromise;
+    const tx = db.transaction(VIDEO_STORE, mode);
+    return {tx, store: tx.objectStore(VIDEO_STORE)};
+  };
+
+  const getRecord = async (id: string) => {
+    const {store: videos} = await store('readonly');
+    return request<StoredVideo | undefined>(videos.get(id));
+  };
+
+  /**
+   * Reads a record and writes back what `modify` makes of it, in one
+   * transaction, so concurrent changes to the same video don't overwrite
+   * each other. Nothing is written when `modify` returns undefined.
+   */
+  const modifyRecord = async (
+    id: string,
+    modify: (record: StoredVideo | undefined) => StoredVideo | undefined,
+  ) => {
+    const {tx, store: videos} = await store('readwrite');
+    const req = videos.get(id);
+    let written: StoredVideo | undefined;
+    let failure: unknown;
+    req.onsuccess = () => {
+      try {
+        written = modify(req.result as StoredVideo | undefined);
+        if (written) videos.put(written);
+      } catch (err) {
+        failure = err;
+        tx.abort();
+      }
+    };
+    try {
+      await transactionDone(tx);
+    } catch (err) {
+      throw failure ?? err;
+    }
+    return written;
+  };
+
+  return {
+    list: async () => {
+      const {store: videos} = await store('readonly');
+      const records = await request<StoredVideo[]>(videos.getAll());
+      const result = sortRecords(records).map((r) => media.resolve(r));
+
+      const outdated = records.filter(
+        (r) => r.schemaVersion !== VIDEO_SCHEMA_VERSION,
+      );
+      // Each is re-read as it is written back, so a change made since the
+      // list was read is migrated too rather than lost.
+      await Promise.all(
+        outdated.map((r) =>
+          modifyRecord(r.id, (record) =>
+            record && record.schemaVersion !== VIDEO_SCHEMA_VERSION
+              ? toStoredVideo(
+                  media.resolve(record),
+                  record.media,
+                  record.addedAt,
+                )
+              : undefined,
+          ),
+        ),
+      );
+      return result;
+    },
+    get: async (id) => {
+      const record = await getRecord(id);
+      return record ? media.resolve(record) : undefined;
+    },
+    put: async (video, blob) => {
+      const record = await modifyRecord(video.id, (existing) =>
+        toStoredVideo(video, blob, existing?.addedAt ?? Date.now()),
+      );
+      media.release(video.id);
+      return media.resolve(record!);
+    },
+    update: async (id, changes) => {
+      const updated = await modifyRecord(
+        id,
+        (record) =>
+          record && applyChanges(record, media.resolve(record), changes),
+      );
+      if (!updated) throw new Error(`No video with id "${id}"`);
+      return media.resolve(updated);
+    },
+    delete: async (id) => {
+      const {tx, store: videos} = await store('readwrite');
+      videos.delete(id);
+      await transactionDone(tx);
+      media.release(id);
+    },
+  };
+}
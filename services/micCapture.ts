@@ -0,0 +1,135 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {createLevelAnalyser, INPUT_SAMPLE_RATE} from '../utils/audio';
+
+/**
+ * Runs on the audio rendering thread. Resamples the microphone to the target
+ * rate by linear interpolation, converts to 16-bit PCM and posts one batch at
+ * a time, transferring the buffer instead of copying it. Kept as plain
+ * JavaScript so it can be loaded from a Blob URL with or without a bundler.
+ */
+const WORKLET_SOURCE = `
+class MicCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super({numberOfInputs: 1, numberOfOutputs: 0});
+    const {targetSampleRate, batchSize} = options.processorOptions;
+    this.step = sampleRate / targetSampleRate;
+    // Read position relative to the current block; -1 is the last sample of
+    // the previous block.
+    this.position = 0;
+    this.previous = 0;
+    this.batchSize = batchSize;
+    this.batch = new Int16Array(batchSize);
+    this.filled = 0;
+    this.port.onmessage = (e) => {
+      if (e.data === 'flush') this.flush();
+    };
+  }
+
+  flush() {
+    if (this.filled === 0) return;
+    const out = this.batch.slice(0, this.filled);
+    this.port.postMessage(out.buffer, [out.buffer]);
+    this.filled = 0;
+  }
+
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (!channel || channel.length === 0) return true;
+    const last = channel.length - 1;
+    let position = this.position;
+    while (position < last) {
+      const i = Math.floor(position);
+      const a = i < 0 ? this.previous : channel[i];
+      const b = channel[i + 1];
+      const v = Math.max(-1, Math.min(1, a + (b - a) * (position - i)));
+      this.batch[this.filled++] = v < 0 ? v * 0x8000 : v * 0x7fff;
+      if (this.filled === this.batchSize) this.flush();
+      position += this.step;
+    }
+    this.position = position - channel.length;
+    this.previous = channel[last];
+    return true;
+  }
+}
+registerProcessor('mic-capture', MicCaptureProcessor);
+`;
+
+let workletUrl: string | null = null;
+
+function getWorkletUrl(): string {
+  if (!workletUrl) {
+    workletUrl = URL.createObjectURL(
+      new Blob([WORKLET_SOURCE], {type: 'application/javascript'}),
+    );
+  }
+  return workletUrl;
+}
+
+/** A running microphone capture pipeline. */
+export interface MicCapture {
+  /** Taps the raw microphone signal for level metering. */
+  analyser: AnalyserNode;
+  /** Flushes any partial batch, then releases the audio graph. */
+  stop(): void;
+}
+
+interface MicCaptureOptions {
+  /** Duration of audio per posted chunk. */
+  batchMs?: number;
+}
+
+/**
+ * Streams `stream` through an AudioWorklet that hands back 16 kHz PCM16
+ * chunks. The main thread only receives ready-to-send buffers.
+ */
+export async function startMicCapture(
+  stream: MediaStream,
+  onChunk: (pcm: Int16Array) => void,
+  {batchMs = 100}: MicCaptureOptions = {},
+): Promise<MicCapture> {
+  const AudioContextClass =
+    window.AudioContext ??
+    (window as Window & {webkitAudioContext?: typeof AudioContext})
+      .webkitAudioContext;
+  const context = new AudioContextClass();
+  try {
+    await context.audioWorklet.addModule(getWorkletUrl());
+  } catch (err) {
+    context.close();
+    throw err;
+  }
+
+  const source = context.createMediaStreamSource(stream);
+  const node = new AudioWorkletNode(context, 'mic-capture', {
+    numberOfInputs: 1,
+    numberOfOutputs: 0,
+    processorOptions: {
+      targetSampleRate: INPUT_SAMPLE_RATE,
+      batchSize: Math.round((INPUT_SAMPLE_RATE * batchMs) / 1000),
+    },
+  });
+  node.port.onmessage = (e: MessageEvent<ArrayBuffer>) => {
+    onChunk(new Int16Array(e.data));
+  };
+  source.connect(node);
+  const analyser = createLevelAnalyser(context);
+  source.connect(analyser);
+
+  return {
+    analyser,
+    stop: () => {
+      node.port.postMessage('flush');
+      source.disconnect();
+      node.disconnect();
+      analyser.disconnect();
+      // Give the flushed batch a moment to arrive before tearing down.
+      setTimeout(() => {
+        node.port.onmessage = null;
+        context.close();
+      }, 50);
+    },
+  };
+}
@@ -0,0 +1,235 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {LiveServerMessage} from '@google/genai';
+import {createPcmBlob, encodePcm16} from '../utils/audio';
+import type {CompanionSession, CompanionTransport} from './companionTransport';
+
+/**
+ * One step of a scripted mock session. `delayMs` is measured from the
+ * previous step (or from the connection opening for the first one).
+ */
+export type MockScriptStep =
+  | {kind: 'message'; message: Partial<LiveServerMessage>; delayMs?: number}
+  | {kind: 'close'; reason?: string; delayMs?: number}
+  | {kind: 'error'; message: string; delayMs?: number};
+
+const MOCK_OUTPUT_SAMPLE_RATE = 24000;
+
+/**
+ * Builds a base64 PCM16 sine tone at the Live API output rate, standing in
+ * for a chunk of model speech.
+ */
+function toneChunk(durationSec: number, frequency: number): string {
+  const frameCount = Math.floor(durationSec * MOCK_OUTPUT_SAMPLE_RATE);
+  const samples = new Float32Array(frameCount);
+  for (let i = 0; i < frameCount; i++) {
+    const t = i / MOCK_OUTPUT_SAMPLE_RATE;
+    samples[i] = Math.sin(2 * Math.PI * frequency * t) * 0.3;
+  }
+  return createPcmBlob(encodePcm16(samples), MOCK_OUTPUT_SAMPLE_RATE).data;
+}
+
+function audioStep(
+  frequency: number,
+  delayMs = 0,
+  transcript?: string,
+): MockScriptStep {
+  return {
+    kind: 'message',
+    delayMs,
+    message: {
+      serverContent: {
+        outputTranscription: transcript ? {text: transcript} : undefined,
+        modelTurn: {
+          parts: [
+            {
+              inlineData: {
+                mimeType: `audio/pcm;rate=${MOCK_OUTPUT_SAMPLE_RATE}`,
+                data: toneChunk(0.3, frequency),
+              },
+            },
+          ],
+        },
+      },
+    },
+  };
+}
+
+const turnCompleteStep: MockScriptStep = {
+  kind: 'message',
+  message: {serverContent: {turnComplete: true}},
+};
+
+/** Scripted sessions selectable through `COMPANION_MOCK_SCRIPT`. */
+export const MOCK_SCRIPTS: Record<string, MockScriptStep[]> = {
+  // A short spoken reply that completes normally.
+  greeting: [
+    {kind: 'message', message: {setupComplete: {}}},
+    audioStep(440, 500, 'Hi! '),
+    audioStep(523, 0, "I'm watching along with you. "),
+    audioStep(659, 0, 'Ask me about any scene.'),
+    turnCompleteStep,
+  ],
+  // The model starts talking and is cut off by the user.
+  interrupted: [
+    {kind: 'message', message: {setupComplete: {}}},
+    audioStep(440, 500, 'Let me tell you about '),
+    audioStep(440, 0, 'this shot, it '),
+    {
+      kind: 'message',
+      delayMs: 200,
+      message: {serverContent: {interrupted: true}},
+    },
+    {
+      kind: 'message',
+      message: {
+        serverContent: {inputTranscription: {text: 'Wait, who is that?'}},
+      },
+    },
+    audioStep(659, 800, "That's the main character."),
+    turnCompleteStep,
+  ],
+  // The server hangs up mid-turn.
+  dropped: [
+    {kind: 'message', message: {setupComplete: {}}},
+    audioStep(440, 500),
+    {kind: 'close', reason: 'Mock session limit reached', delayMs: 1500},
+  ],
+  // The connection fails after opening.
+  error: [
+    {kind: 'message', message: {setupComplete: {}}},
+    {kind: 'error', message: 'Mock transport failure', delayMs: 1000},
+  ],
+};
+
+/** Played whenever the client completes a typed turn. */
+const MOCK_TEXT_REPLY: MockScriptStep[] = [
+  audioStep(523, 400, 'Good question! '),
+  audioStep(659, 0, 'This is a scripted reply from the mock companion.'),
+  turnCompleteStep,
+];
+
+function toServerMessage(data: Partial<LiveServerMessage>): LiveServerMessage {
+  return Object.assign(new LiveServerMessage(), data);
+}
+
+/**
+ * In-process transport that replays a script once the session opens and a
+ * canned reply to each typed turn. Other client input is accepted and
+ * dropped, so the companion can run with no key or network.
+ */
+export function createMockTransport(
+  script: MockScriptStep[],
+): CompanionTransport {
+  return {
+    connect: async ({callbacks}) => {
+      const timers: number[] = [];
+      let closed = false;
+
+      const close = (reason = 'Closed by client') => {
+        if (closed) return;
+        closed = true;
+        timers.forEach((id) => clearTimeout(id));
+        callbacks.onclose?.(new CloseEvent('close', {code: 1000, reason}));
+      };
+
+      const play = (steps: MockScriptStep[]) => {
+        let elapsed = 0;
+        for (const step of steps) {
+          elapsed += step.delayMs ?? 0;
+          timers.push(
+            window.setTimeout(() => {
+              if (closed) return;
+              switch (step.kind) {
+                case 'message':
+                  callbacks.onmessage(toServerMessage(step.message));
+                  break;
+                case 'close':
+                  close(step.reason);
+                  break;
+                case 'error':
+                  callbacks.onerror?.(
+                    new ErrorEvent('error', {message: step.message}),
+                  );
+                  break;
+              }
+            }, elapsed),
+          );
+        }
+      };
+
+      const session: CompanionSession = {
+        sendRealtimeInput: () => {},
+        sendClientContent: ({turnComplete = true}) => {
+          if (turnComplete) play(MOCK_TEXT_REPLY);
+        },
+        sendToolResponse: () => {},
+        close: () => close(),
+      };
+
+      // Let the caller receive the session before the first message arrives.
+      setTimeout(() => {
+        callbacks.onopen?.();
+        play(script);
+      }, 0);
+
+      return session;
+    },
+  };
+}
+
+/**
+ * Transport for a local mock Live server. Client calls are sent as JSON
+ * objects keyed by method (`realtimeInput`, `clientContent`, `toolResponse`),
+ * preceded by a `setup` message carrying the connect config; every frame the
+ * server sends back is parsed as a `LiveServerMessage`.
+ */
+export function createWebSocketTransport(url: string): CompanionTransport {
+  return {
+    connect: ({config, callbacks}) =>
+      new Promise((resolve, reject) => {
+        const ws = new WebSocket(url);
+        let opened = false;
+
+        const send = (payload: object) => {
+          if (ws.readyState === WebSocket.OPEN) {
+            ws.send(JSON.stringify(payload));
+          }
+        };
+
+        const session: CompanionSession = {
+          sendRealtimeInput: (params) => send({realtimeInput: params}),
+          sendClientContent: (params) => send({clientContent: params}),
+          sendToolResponse: (params) => send({toolResponse: params}),
+          close: () => ws.close(),
+        };
+
+        ws.onopen = () => {
+          opened = true;
+          send({setup: config});
+          callbacks.onopen?.();
+          resolve(session);
+        };
+        ws.onmessage = (e) => {
+          try {
+            callbacks.onmessage(toServerMessage(JSON.parse(e.data)));
+          } catch (err) {
+            console.error('Malformed message from mock Live server', err);
+          }
+        };
+        ws.onerror = () => {
+          const message = `Mock Live server at ${url} is unreachable`;
+          if (!opened) {
+            reject(new Error(message));
+            return;
+          }
+          callbacks.onerror?.(new ErrorEvent('error', {message}));
+        };
+        ws.onclose = (e) => {
+          if (opened) callbacks.onclose?.(e);
+        };
+      }),
+  };
+}
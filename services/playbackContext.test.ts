@@ -0,0 +1,36 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {describe, expect, it} from 'vitest';
+import {describeFrame, describePlayback} from './playbackContext';
+
+function player(state: Partial<HTMLVideoElement>): HTMLVideoElement {
+  return {
+    currentTime: 42,
+    duration: 134,
+    paused: false,
+    playbackRate: 1,
+    ...state,
+  } as HTMLVideoElement;
+}
+
+describe('describePlayback', () => {
+  it('describes the current position', () => {
+    expect(describePlayback(player({}))).toBe('0:42 of 2:14, playing at 1x');
+  });
+
+  it('copes with an unknown length', () => {
+    expect(describePlayback(player({duration: NaN, paused: true}))).toBe(
+      '0:42 of unknown length, paused at 1x',
+    );
+  });
+});
+
+describe('describeFrame', () => {
+  it('names the moment the frame was captured, not the current one', () => {
+    expect(describeFrame(40, player({currentTime: 41.5}))).toBe(
+      '[The next frame shows 0:40 of 2:14, playing at 1x.]',
+    );
+  });
+});
@@ -0,0 +1,51 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {formatTimestamp} from '../utils/time';
+
+/** Playback events reported to the companion as context. */
+export type PlaybackEvent = 'seeked' | 'pause' | 'play' | 'ratechange';
+
+/**
+ * Describes where playback is, e.g. "0:42 of 2:14, playing at 1x". Pass
+ * `position` to describe an earlier moment than the current one.
+ */
+export function describePlayback(
+  video: HTMLVideoElement,
+  position = video.currentTime,
+): string {
+  const duration = Number.isFinite(video.duration)
+    ? formatTimestamp(video.duration)
+    : 'unknown length';
+  const state = video.paused ? 'paused' : 'playing';
+  return `${formatTimestamp(position)} of ${duration}, ${state} at ${video.playbackRate}x`;
+}
+
+/**
+ * The context line sent to the companion when the viewer changes playback.
+ */
+export function describePlaybackEvent(
+  event: PlaybackEvent,
+  video: HTMLVideoElement,
+): string {
+  const position = formatTimestamp(video.currentTime);
+  switch (event) {
+    case 'seeked':
+      return `[The viewer jumped to ${position}. Now at ${describePlayback(video)}.]`;
+    case 'pause':
+      return `[The viewer paused the video at ${position}.]`;
+    case 'play':
+      return `[The viewer resumed the video from ${position}.]`;
+    case 'ratechange':
+      return `[The viewer changed the playback speed to ${video.playbackRate}x.]`;
+  }
+}
+
+/**
+ * The note sent as realtime text ahead of each captured frame, saying which
+ * moment of the video it shows.
+ */
+export function describeFrame(time: number, video: HTMLVideoElement): string {
+  return `[The next frame shows ${describePlayback(video, time)}.]`;
+}
@@ -0,0 +1,132 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {describe, expect, it} from 'vitest';
+import {MOCK_VIDEOS} from '../constants';
+import {Video, WatchProgress} from '../types';
+import {createRecommender} from './recommender';
+
+function video(
+  id: string,
+  description: string,
+  extra: Partial<Video> = {},
+): Video {
+  return {id, videoUrl: '', title: '', description, ...extra};
+}
+
+function watched(videoId: string, fraction: number): WatchProgress {
+  return {videoId, position: fraction * 100, duration: 100, updatedAt: 1};
+}
+
+/** Unrelated videos, so shared words have a positive IDF. */
+const FILLER = [
+  video('f1', 'a lighthouse keeper paints the stormy harbor'),
+  video('f2', 'a chef bakes bread in a tiny kitchen'),
+  video('f3', 'an astronaut floats above the glowing planet'),
+  video('f4', 'a knight rides through the misty forest'),
+];
+
+function recommend(
+  catalog: Video[],
+  currentId: string,
+  history?: WatchProgress[],
+): string[] {
+  const recommender = createRecommender();
+  recommender.sync(catalog);
+  const current = catalog.find((v) => v.id === currentId)!;
+  return recommender.recommend(current, {history}).map((v) => v.id);
+}
+
+describe('createRecommender', () => {
+  it('ranks the mock catalog the same way every time', () => {
+    const rankings = Object.fromEntries(
+      MOCK_VIDEOS.map((v) => [v.id, recommend(MOCK_VIDEOS, v.id)]),
+    );
+    expect(rankings).toEqual({
+      '1': ['10', '2', '9', '3', '6', '4', '7', '5', '8'],
+      '2': ['1', '8', '5', '4', '3', '7', '9', '10', '6'],
+      '3': ['9', '1', '7', '5', '4', '8', '6', '2', '10'],
+      '4': ['10', '6', '3', '7', '9', '5', '8', '2', '1'],
+      '5': ['9', '8', '3', '2', '7', '4', '6', '10', '1'],
+      '6': ['8', '9', '10', '4', '3', '5', '7', '2', '1'],
+      '7': ['10', '3', '8', '4', '5', '9', '6', '2', '1'],
+      '8': ['6', '7', '5', '2', '4', '3', '9', '10', '1'],
+      '9': ['6', '5', '3', '1', '4', '7', '8', '2', '10'],
+      '10': ['1', '2', '6', '7', '4', '5', '3', '9', '8'],
+    });
+  });
+
+  it('never recommends the current video', () => {
+    for (const v of MOCK_VIDEOS) {
+      expect(recommend(MOCK_VIDEOS, v.id)).not.toContain(v.id);
+    }
+  });
+
+  it('breaks ties by video id', () => {
+    // Each candidate shares one distinct pair of words with the current
+    // video, so all are equally relevant and none is like another.
+    const catalog = [
+      ...FILLER,
+      video('current', 'red fox blue whale green frog'),
+      video('c', 'red fox'),
+      video('a', 'blue whale'),
+      video('b', 'green frog'),
+    ];
+    expect(recommend(catalog, 'current').slice(0, 3)).toEqual(['a', 'b', 'c']);
+    expect(recommend([...catalog].reverse(), 'current').slice(0, 3)).toEqual([
+      'a',
+      'b',
+      'c',
+    ]);
+  });
+
+  it('ranks watched videos lower the more of them was seen', () => {
+    const catalog = [
+      ...FILLER,
+      video('current', 'red fox blue whale green frog'),
+      video('a', 'red fox'),
+      video('b', 'blue whale'),
+      video('c', 'green frog'),
+    ];
+    const history = [watched('a', 1), watched('b', 0.5)];
+    expect(recommend(catalog, 'current', history).slice(0, 3)).toEqual([
+      'c',
+      'b',
+      'a',
+    ]);
+  });
+
+  it('moves a finished video off the top of the mock rankings', () => {
+    const [top] = recommend(MOCK_VIDEOS, '1');
+    expect(recommend(MOCK_VIDEOS, '1', [watched(top, 1)])[0]).not.toBe(top);
+  });
+
+  it('ranks remixes of the current video above unrelated look-alikes', () => {
+    const catalog = [
+      ...FILLER,
+      video('current', 'a red fox jumps over the fence'),
+      // Same text, so only the lineage tells them apart; the remix has the
+      // later id, so it would lose the tie without the bonus.
+      video('a-stranger', 'a red fox sleeps'),
+      video('b-remix', 'a red fox sleeps', {parentId: 'current'}),
+    ];
+    expect(recommend(catalog, 'current')[0]).toBe('b-remix');
+  });
+
+  it('spreads near-duplicates out of the top picks', () => {
+    const duplicate = 'ocean waves crash on the rocky beach';
+    const catalog = [
+      ...FILLER,
+      video('current', 'ocean waves crash on the rocky beach at dawn'),
+      video('dupe1', duplicate),
+      video('dupe2', duplicate),
+      video('dupe3', duplicate),
+      video('other', 'beach at dawn'),
+    ];
+    const ranked = recommend(catalog, 'current');
+    // The duplicates are the most relevant, so one comes first, but the
+    // next pick is the video unlike it.
+    expect(ranked.slice(0, 3)).toEqual(['dupe1', 'other', 'dupe2']);
+  });
+});
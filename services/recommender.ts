@@ -0,0 +1,252 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {Video, WatchProgress} from '../types';
+import {termsOf} from '../utils/text';
+import {watchedFraction} from './watchHistory';
+
+export interface RecommendOptions {
+  /**
+   * What the viewer has watched. Videos are ranked lower the more of them
+   * was seen, and videos like the ones watched most recently rank higher.
+   */
+  history?: WatchProgress[];
+  /** How many videos to return; all others by default. */
+  limit?: number;
+}
+
+/**
+ * Suggests what to watch after a video. Keep it current with `sync`, which
+ * only re-reads videos whose title or prompt changed.
+ */
+export interface Recommender {
+  sync(videos: Video[]): void;
+  /** Other catalog videos, best next pick first. */
+  recommend(current: Video, options?: RecommendOptions): Video[];
+}
+
+/** Title words count this many times more than prompt words. */
+const TITLE_WEIGHT = 2;
+/** Share of the relevance that comes from prompt text; the rest from tags. */
+const TEXT_WEIGHT = 0.7;
+/** Added for a remix of the current video, its original or a sibling. */
+const LINEAGE_BONUS = 0.15;
+/** Relevance multiplier for a video watched to the end. */
+const WATCHED_PENALTY = 0.25;
+/** Weight of the likeness to recently watched videos. */
+const TASTE_WEIGHT = 0.2;
+/** How many of the most recently watched videos make up the viewer's taste. */
+const TASTE_SAMPLE = 5;
+/**
+ * Trade-off between relevance and variety when ranking (maximal marginal
+ * relevance): 1 ranks on relevance alone.
+ */
+const DIVERSITY_LAMBDA = 0.75;
+/**
+ * Only the top of the ranking is diversified, picking from this many of the
+ * most relevant videos; the rest follow in order of relevance.
+ */
+const DIVERSIFIED_PICKS = 12;
+const DIVERSITY_POOL = 40;
+
+interface Entry {
+  video: Video;
+  title: string;
+  description: string;
+  /** Term counts, title terms weighted. */
+  counts: Map<string, number>;
+}
+
+/** Overlap of two tag lists, from 0 (none shared) to 1 (the same). */
+function tagSimilarity(a: string[] = [], b: string[] = []): number {
+  if (a.length === 0 || b.length === 0) return 0;
+  const setA = new Set(a);
+  const shared = b.filter((tag) => setA.has(tag)).length;
+  return shared / (setA.size + b.length - shared);
+}
+
+function isLineage(a: Video, b: Video): boolean {
+  return (
+    a.parentId === b.id ||
+    b.parentId === a.id ||
+    (a.parentId !== undefined && a.parentId === b.parentId)
+  );
+}
+
+/**
+ * Creates an empty recommender; call `sync` to fill it. Videos are compared
+ * as TF-IDF vectors of their title and prompt, plus their style tags, and the
+ * ranking is spread out so near-duplicates don't crowd the top.
+ */
+export function createRecommender(): Recommender {
+  const entries = new Map<string, Entry>();
+  /** How many videos use each term. */
+  const documentFrequency = new Map<string, number>();
+  // TF-IDF vectors, recomputed when the catalog's text changes.
+  let vectors: Map<string, Map<string, number>> | null = null;
+
+  const countDocuments = (counts: Map<string, number>, delta: number) => {
+    for (const term of counts.keys()) {
+      const df = (documentFrequency.get(term) ?? 0) + delta;
+      if (df > 0) documentFrequency.set(term, df);
+      else documentFrequency.delete(term);
+    }
+  };
+
+  /** Unit-length TF-IDF vector of an entry. */
+  const vectorize = (entry: Entry): Map<string, number> => {
+    const n = entries.size;
+    const vector = new Map<string, number>();
+    let norm = 0;
+    entry.counts.forEach((count, term) => {
+      const idf = Math.log(n / (documentFrequency.get(term) ?? 1));
+      const weight = (1 + Math.log(count)) * idf;
+      if (weight <= 0) return;
+      vector.set(term, weight);
+      norm += weight * weight;
+    });
+    norm = Math.sqrt(norm);
+    if (norm === 0) return vector;
+    vector.forEach((weight, term) => vector.set(term, weight / norm));
+    return vector;
+  };
+
+  const getVectors = () => {
+    if (!vectors) {
+      vectors = new Map();
+      for (const [id, entry] of entries) vectors.set(id, vectorize(entry));
+    }
+    return vectors;
+  };
+
+  const cosine = (a: Map<string, number>, b: Map<string, number>) => {
+    const [small, large] = a.size < b.size ? [a, b] : [b, a];
+    let dot = 0;
+    small.forEach((weight, term) => {
+      dot += weight * (large.get(term) ?? 0);
+    });
+    return dot;
+  };
+
+  /** How alike two videos are, from 0 to 1. */
+  const similarity = (a: Video, b: Video) => {
+    const all = getVectors();
+    const text = cosine(all.get(a.id)!, all.get(b.id)!);
+    const tags = tagSimilarity(a.tags, b.tags);
+    return TEXT_WEIGHT * text + (1 - TEXT_WEIGHT) * tags;
+  };
+
+  const remove = (id: string) => {
+    const entry = entries.get(id);
+    if (!entry) return;
+    countDocuments(entry.counts, -1);
+    entries.delete(id);
+    vectors = null;
+  };
+
+  const add = (video: Video) => {
+    const counts = new Map<string, number>();
+    const addTerms = (text: string, weight: number) =>
+      termsOf(text).forEach((term) =>
+        counts.set(term, (counts.get(term) ?? 0) + weight),
+      );
+    addTerms(video.title, TITLE_WEIGHT);
+    addTerms(video.description, 1);
+    entries.set(video.id, {
+      video,
+      title: video.title,
+      description: video.description,
+      counts,
+    });
+    countDocuments(counts, 1);
+    vectors = null;
+  };
+
+  return {
+    sync: (videos) => {
+      const ids = new Set(videos.map((v) => v.id));
+      for (const id of [...entries.keys()]) {
+        if (!ids.has(id)) remove(id);
+      }
+      for (const video of videos) {
+        const entry = entries.get(video.id);
+        if (
+          entry &&
+          entry.title === video.title &&
+          entry.description === video.description
+        ) {
+          // Tags and lineage are read from the latest copy.
+          entry.video = video;
+          continue;
+        }
+        remove(video.id);
+        add(video);
+      }
+    },
+    recommend: (current, {history = [], limit = Infinity} = {}) => {
+      if (!entries.has(current.id)) return [];
+      const watched = new Map(
+        history.map((p) => [p.videoId, watchedFraction(p)]),
+      );
+      const taste = [...history]
+        .sort((a, b) => b.updatedAt - a.updatedAt)
+        .map((p) => entries.get(p.videoId)?.video)
+        .filter((v): v is Video => v !== undefined && v.id !== current.id)
+        .slice(0, TASTE_SAMPLE);
+
+      const candidates = [...entries.values()]
+        .filter((e) => e.video.id !== current.id)
+        .map(({video}) => {
+          let relevance = similarity(current, video);
+          if (isLineage(current, video)) relevance += LINEAGE_BONUS;
+          if (taste.length > 0) {
+            const liking = taste
+              .filter((v) => v.id !== video.id)
+              .reduce((sum, v) => sum + similarity(video, v), 0);
+            relevance += (TASTE_WEIGHT * liking) / taste.length;
+          }
+          // A video half seen keeps more of its rank than one seen through.
+          const seen = watched.get(video.id) ?? 0;
+          relevance *= 1 - (1 - WATCHED_PENALTY) * seen;
+          return {video, relevance};
+        })
+        // Stable starting order, so ties always rank the same way.
+        .sort(
+          (a, b) =>
+            b.relevance - a.relevance || a.video.id.localeCompare(b.video.id),
+        );
+
+      // Maximal marginal relevance: each pick trades relevance against
+      // likeness to the videos already picked.
+      const pool = candidates
+        .slice(0, DIVERSITY_POOL)
+        .map((c) => ({...c, redundancy: 0}));
+      const rest = candidates.slice(DIVERSITY_POOL).map((c) => c.video);
+      const ranked: Video[] = [];
+      const picks = Math.min(limit, DIVERSIFIED_PICKS, pool.length);
+      while (ranked.length < picks) {
+        let best = 0;
+        let bestScore = -Infinity;
+        pool.forEach(({relevance, redundancy}, i) => {
+          const score =
+            DIVERSITY_LAMBDA * relevance - (1 - DIVERSITY_LAMBDA) * redundancy;
+          if (score > bestScore) {
+            best = i;
+            bestScore = score;
+          }
+        });
+        const [picked] = pool.splice(best, 1);
+        ranked.push(picked.video);
+        pool.forEach((c) => {
+          c.redundancy = Math.max(
+            c.redundancy,
+            similarity(c.video, picked.video),
+          );
+        });
+      }
+      ranked.push(...pool.map((c) => c.video), ...rest);
+      return ranked.slice(0, limit);
+    },
+  };
+}
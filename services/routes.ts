@@ -0,0 +1,82 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {BrowseCategory, isBrowseCategory} from './categories';
+
+/**
+ * A page of the app, as addressed by its URL. A watch route's `time` is
+ * where to start playing, in seconds.
+ */
+export type Route =
+  | {name: 'home'}
+  | {name: 'browse'; category: BrowseCategory}
+  | {name: 'watch'; videoId: string; time?: number}
+  | {name: 'remix'; videoId: string}
+  | {name: 'compare'; videoId: string}
+  | {name: 'search'; query: string}
+  | {name: 'myList'};
+
+/**
+ * Reads the route from a URL's path and query. Unknown paths go to the home
+ * page.
+ */
+export function parseRoute({
+  pathname,
+  search,
+}: {
+  pathname: string;
+  search: string;
+}): Route {
+  const params = new URLSearchParams(search);
+  const segments = pathname
+    .split('/')
+    .filter(Boolean)
+    .map((segment) => {
+      try {
+        return decodeURIComponent(segment);
+      } catch {
+        return segment;
+      }
+    });
+  const [page, id, action] = segments;
+
+  if (page === 'watch' && id) {
+    if (action === 'remix') return {name: 'remix', videoId: id};
+    if (action === 'compare') return {name: 'compare', videoId: id};
+    const time = Number(params.get('t') ?? NaN);
+    return Number.isFinite(time) && time >= 0
+      ? {name: 'watch', videoId: id, time}
+      : {name: 'watch', videoId: id};
+  }
+  if (page === 'browse' && id && isBrowseCategory(id)) {
+    return {name: 'browse', category: id};
+  }
+  if (page === 'search') return {name: 'search', query: params.get('q') ?? ''};
+  if (page === 'my-list') return {name: 'myList'};
+  return {name: 'home'};
+}
+
+/** The URL of a route, as a path with a query. */
+export function routeUrl(route: Route): string {
+  switch (route.name) {
+    case 'home':
+      return '/';
+    case 'browse':
+      return `/browse/${route.category}`;
+    case 'watch': {
+      const path = `/watch/${encodeURIComponent(route.videoId)}`;
+      return route.time !== undefined
+        ? `${path}?t=${Math.floor(route.time)}`
+        : path;
+    }
+    case 'remix':
+      return `/watch/${encodeURIComponent(route.videoId)}/remix`;
+    case 'compare':
+      return `/watch/${encodeURIComponent(route.videoId)}/compare`;
+    case 'search':
+      return `/search?${new URLSearchParams({q: route.query})}`;
+    case 'myList':
+      return '/my-list';
+  }
+}
@@ -0,0 +1,128 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {Chapter, Video} from '../types';
+import {
+  createProbeContext,
+  lumaDifference,
+  probeLuma,
+} from '../utils/frames';
+import {
+  captureFrameDataUrl,
+  loadVideoElement,
+  releaseVideoElement,
+  seekVideo,
+} from '../utils/videoElement';
+
+export interface SceneIndexOptions {
+  /** Gap between sampled frames, in seconds. */
+  sampleIntervalSec?: number;
+  /** Upper bound on frames sampled, so long videos are sampled sparser. */
+  maxSamples?: number;
+  /** Mean pixel difference (0–1) between samples that counts as a cut. */
+  cutThreshold?: number;
+  /** Cuts closer than this to the previous one are merged into it. */
+  minChapterSec?: number;
+  /** Width of the chapter thumbnails. */
+  thumbnailWidth?: number;
+}
+
+/** Bump when the index format or detection changes, to drop old entries. */
+const CACHE_VERSION = 1;
+const CACHE_PREFIX = `sceneIndex:v${CACHE_VERSION}:`;
+
+/**
+ * Builds chapters for the video at `videoUrl` by seeking a hidden video
+ * element through it and comparing luma probes of consecutive samples. Each
+ * sharp change starts a new chapter, with the first frame after the cut as
+ * its thumbnail.
+ */
+export async function buildChapters(
+  videoUrl: string,
+  {
+    sampleIntervalSec = 0.5,
+    maxSamples = 600,
+    cutThreshold = 0.18,
+    minChapterSec = 2,
+    thumbnailWidth = 160,
+  }: SceneIndexOptions = {},
+  signal?: AbortSignal,
+): Promise<Chapter[]> {
+  const video = await loadVideoElement(videoUrl);
+  try {
+    const {duration} = video;
+    if (!Number.isFinite(duration) || duration <= 0) {
+      throw new Error('Video has no known duration');
+    }
+    const probeCtx = createProbeContext();
+    if (!probeCtx) throw new Error('Canvas is not available');
+
+    const step = Math.max(sampleIntervalSec, duration / maxSamples);
+    const cuts: {time: number; thumbnail: string}[] = [];
+    let previous: Uint8Array | null = null;
+    for (let time = 0; time < duration; time += step) {
+      signal?.throwIfAborted();
+      await seekVideo(video, time);
+      const luma = probeLuma(probeCtx, video);
+      const lastCut = cuts[cuts.length - 1];
+      const isCut =
+        !lastCut ||
+        (previous !== null &&
+          lumaDifference(luma, previous) >= cutThreshold &&
+          time - lastCut.time >= minChapterSec);
+      if (isCut) {
+        cuts.push({
+          time,
+          thumbnail: captureFrameDataUrl(video, thumbnailWidth),
+        });
+      }
+      previous = luma;
+    }
+
+    return cuts.map((cut, i) => ({
+      start: cut.time,
+      end: cuts[i + 1]?.time ?? duration,
+      title: `Scene ${i + 1}`,
+      thumbnail: cut.thumbnail,
+    }));
+  } finally {
+    releaseVideoElement(video);
+  }
+}
+
+function cacheKey(video: Video) {
+  return `${CACHE_PREFIX}${video.id}:${video.videoUrl}`;
+}
+
+/**
+ * Returns the chapters indexed earlier for `video`, or null if it has not
+ * been indexed in this browser yet.
+ */
+export function loadCachedChapters(video: Video): Chapter[] | null {
+  try {
+    const stored = localStorage.getItem(cacheKey(video));
+    return stored ? (JSON.parse(stored) as Chapter[]) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Returns the chapters for `video`, indexing it and caching the result when
+ * nothing is cached yet.
+ */
+export async function getChapters(
+  video: Video,
+  signal?: AbortSignal,
+): Promise<Chapter[]> {
+  const cached = loadCachedChapters(video);
+  if (cached) return cached;
+  const chapters = await buildChapters(video.videoUrl, {}, signal);
+  try {
+    localStorage.setItem(cacheKey(video), JSON.stringify(chapters));
+  } catch {
+    // Storage is full or unavailable; the index is simply rebuilt next time.
+  }
+  return chapters;
+}
@@ -0,0 +1,114 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {describe, expect, it} from 'vitest';
+import {Video} from '../types';
+import {createSearchIndex, TextPart} from './searchIndex';
+
+function video(id: string, title: string, description = ''): Video {
+  return {id, videoUrl: `https://example.com/${id}.mp4`, title, description};
+}
+
+function indexOf(videos: Video[]) {
+  const index = createSearchIndex();
+  index.sync(videos);
+  return index;
+}
+
+function ids(index: ReturnType<typeof createSearchIndex>, query: string) {
+  return index.search(query).results.map((r) => r.video.id);
+}
+
+/** The marked parts of highlighted text. */
+function marked(parts: TextPart[]) {
+  return parts.filter((p) => p.match).map((p) => p.text);
+}
+
+const CATALOG = [
+  video('robot', 'Robot garden', 'A robot dancing among the tomatoes'),
+  video('fox', 'Red fox', 'A fox trots through fresh snow at dusk'),
+  video('whale', 'Blue whale', 'A whale sings to the red glow of a sunset'),
+];
+
+describe('createSearchIndex', () => {
+  it('matches other forms of a word', () => {
+    const index = indexOf(CATALOG);
+    expect(ids(index, 'dance ')).toEqual(['robot']);
+    expect(ids(index, 'trotting ')).toEqual(['fox']);
+  });
+
+  it('requires every word of the query', () => {
+    const index = indexOf(CATALOG);
+    expect(ids(index, 'red whale ')).toEqual(['whale']);
+    expect(ids(index, 'fox whale ')).toEqual([]);
+  });
+
+  it('matches quoted words only as a phrase', () => {
+    const index = indexOf([
+      video('a', 'Morning', 'Snow falls on the red barn'),
+      video('b', 'Evening', 'A barn glows red at dusk'),
+    ]);
+    expect(ids(index, '"red barn"')).toEqual(['a']);
+    expect(ids(index, 'red barn').sort()).toEqual(['a', 'b']);
+  });
+
+  it('matches the word being typed as a prefix', () => {
+    const index = indexOf(CATALOG);
+    expect(ids(index, 'tom')).toEqual(['robot']);
+    expect(ids(index, 'tom ')).toEqual([]);
+    expect(ids(index, 'whale sun')).toEqual(['whale']);
+  });
+
+  it('ranks a match in the title above one in the prompt', () => {
+    const index = indexOf([
+      video('prompt', 'Harbour at night', 'Lanterns drift past a lighthouse'),
+      video('title', 'Lighthouse', 'Waves break below the cliffs'),
+    ]);
+    expect(ids(index, 'lighthouse ')).toEqual(['title', 'prompt']);
+  });
+
+  it('marks the matched words in the title and snippet', () => {
+    const [result] = indexOf(CATALOG).search('dancing robots ').results;
+    expect(marked(result.highlight.title)).toEqual(['Robot']);
+    expect(marked(result.highlight.snippet)).toEqual(['robot', 'dancing']);
+    expect(result.highlight.snippet.map((p) => p.text).join('')).toBe(
+      'A robot dancing among the tomatoes',
+    );
+  });
+
+  it('shows the part of a long prompt around the first match', () => {
+    const filler = 'The camera drifts slowly over quiet hills. '.repeat(6);
+    const index = indexOf([
+      video('long', 'Valley', `${filler}Then a kite appears.`),
+    ]);
+    const {snippet} = index.search('kite ').results[0].highlight;
+    expect(snippet[0].text).toBe('…');
+    expect(marked(snippet)).toEqual(['kite']);
+  });
+
+  it('counts every match but returns at most `limit`', () => {
+    const {results, total} = indexOf(CATALOG).search('red ', 1);
+    expect(total).toBe(2);
+    expect(results).toHaveLength(1);
+  });
+
+  it('follows changes to the catalog', () => {
+    const index = indexOf(CATALOG);
+    index.sync([
+      video('robot', 'Robot kitchen', 'A robot bakes bread'),
+      CATALOG[1],
+    ]);
+    expect(ids(index, 'garden ')).toEqual([]);
+    expect(ids(index, 'bread ')).toEqual(['robot']);
+    expect(ids(index, 'whale ')).toEqual([]);
+    expect(ids(index, 'fox ')).toEqual(['fox']);
+  });
+
+  it('returns the latest video for unchanged text', () => {
+    const index = indexOf(CATALOG);
+    const updated = {...CATALOG[1], duration: 8};
+    index.sync([CATALOG[0], updated, CATALOG[2]]);
+    expect(index.search('fox ').results[0].video).toBe(updated);
+  });
+});
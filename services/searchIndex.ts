@@ -0,0 +1,386 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {Video} from '../types';
+import {STOP_WORDS, Token, tokenize} from '../utils/text';
+
+/** A piece of displayed text, marked when it matched the query. */
+export interface TextPart {
+  text: string;
+  match: boolean;
+}
+
+/** A video's title and an excerpt of its prompt, with matches marked. */
+export interface SearchHighlight {
+  title: TextPart[];
+  snippet: TextPart[];
+}
+
+export interface SearchResult {
+  video: Video;
+  score: number;
+  highlight: SearchHighlight;
+}
+
+export interface SearchResults {
+  /** The best matches, best first, at most `limit` of them. */
+  results: SearchResult[];
+  /** How many videos matched in all. */
+  total: number;
+}
+
+/**
+ * A full-text index of the catalog's titles and prompts. Keep it current
+ * with `sync`, which only re-indexes videos whose text changed.
+ */
+export interface SearchIndex {
+  sync(videos: Video[]): void;
+  /**
+   * Finds the videos matching every word of `query` (stemmed, so "dance"
+   * finds "dancing"). Quoted parts must appear as a phrase, and the last word
+   * also matches longer words while it is still being typed.
+   */
+  search(query: string, limit?: number): SearchResults;
+}
+
+/** Title words count this many times more than prompt words. */
+const TITLE_WEIGHT = 3;
+/** Score multiplier for a document containing a quoted phrase. */
+const PHRASE_BOOST = 2;
+/** Score multiplier for a word only matched as a prefix. */
+const PREFIX_WEIGHT = 0.7;
+/** Most indexed words a word being typed can expand to. */
+const MAX_PREFIX_EXPANSIONS = 50;
+const SNIPPET_LENGTH = 160;
+const SNIPPET_LEAD = 50;
+// BM25 parameters.
+const K1 = 1.2;
+const B = 0.75;
+
+interface IndexedVideo {
+  video: Video;
+  /** The text the entry was built from, to tell when it needs rebuilding. */
+  title: string;
+  description: string;
+  titleTokens: Token[];
+  bodyTokens: Token[];
+  /** Number of indexed words, title words weighted. */
+  length: number;
+}
+
+/** Where a term occurs in one video. */
+interface Posting {
+  title: number[];
+  body: number[];
+}
+
+/**
+ * One part of a query: a single word, or a quoted phrase whose words must
+ * appear at the given distances from the first.
+ */
+interface QueryClause {
+  terms: string[];
+  offsets: number[];
+  phrase: boolean;
+  /** The unfinished word being typed, matched as a prefix too. */
+  prefix?: string;
+}
+
+function parseQuery(query: string): QueryClause[] {
+  const clauses: QueryClause[] = [];
+  // An unclosed quote is a phrase still being typed.
+  const parts = query.split('"');
+  parts.forEach((part, i) => {
+    const tokens = tokenize(part);
+    const isPhrase = i % 2 === 1;
+    if (isPhrase) {
+      const words = tokens.filter((t) => !STOP_WORDS.has(t.word));
+      if (words.length === 0) return;
+      clauses.push({
+        terms: words.map((t) => t.term),
+        offsets: words.map((t) => t.position - words[0].position),
+        phrase: words.length > 1,
+      });
+      return;
+    }
+    const isLast = i === parts.length - 1;
+    tokens.forEach((token, j) => {
+      const typing =
+        isLast && j === tokens.length - 1 && token.end === part.length;
+      if (STOP_WORDS.has(token.word) && !typing) return;
+      clauses.push({
+        terms: [token.term],
+        offsets: [0],
+        phrase: false,
+        prefix: typing ? token.word : undefined,
+      });
+    });
+  });
+  return clauses;
+}
+
+function highlightText(
+  text: string,
+  tokens: Token[],
+  matched: Set<string>,
+  start = 0,
+  end = text.length,
+): TextPart[] {
+  const parts: TextPart[] = [];
+  let cursor = start;
+  const push = (to: number, match: boolean) => {
+    if (to <= cursor) return;
+    const last = parts[parts.length - 1];
+    const piece = text.slice(cursor, to);
+    if (last && last.match === match) last.text += piece;
+    else parts.push({text: piece, match});
+    cursor = to;
+  };
+  for (const token of tokens) {
+    if (token.end <= start || !matched.has(token.term)) continue;
+    if (token.start >= end) break;
+    push(token.start, false);
+    push(Math.min(token.end, end), true);
+  }
+  push(end, false);
+  return parts;
+}
+
+/** The part of the prompt around its first match, or its opening. */
+function snippet(entry: IndexedVideo, matched: Set<string>): TextPart[] {
+  const text = entry.description;
+  const first = entry.bodyTokens.find((t) => matched.has(t.term));
+  let start = 0;
+  if (first && first.end > SNIPPET_LENGTH) {
+    const from = first.start - SNIPPET_LEAD;
+    start = entry.bodyTokens.find((t) => t.start >= from)?.start ?? 0;
+  }
+  let end = Math.min(text.length, start + SNIPPET_LENGTH);
+  if (end < text.length) {
+    end = [...entry.bodyTokens].reverse().find((t) => t.end <= end)?.end ?? end;
+  }
+  const parts = highlightText(text, entry.bodyTokens, matched, start, end);
+  if (start > 0) parts.unshift({text: '…', match: false});
+  if (end < text.length) parts.push({text: '…', match: false});
+  return parts;
+}
+
+function hasPhrase(
+  postings: Posting[],
+  offsets: number[],
+  field: keyof Posting,
+): boolean {
+  const rest = postings.slice(1).map((p) => new Set(p[field]));
+  return postings[0][field].some((position) =>
+    rest.every((positions, i) => positions.has(position + offsets[i + 1])),
+  );
+}
+
+/** Creates an empty index; call `sync` to fill it. */
+export function createSearchIndex(): SearchIndex {
+  const entries = new Map<string, IndexedVideo>();
+  const postings = new Map<string, Map<string, Posting>>();
+  let totalLength = 0;
+  // Sorted terms for prefix lookups, rebuilt lazily after changes.
+  let sortedTerms: string[] | null = null;
+
+  const addPositions = (id: string, tokens: Token[], field: keyof Posting) => {
+    for (const token of tokens) {
+      if (STOP_WORDS.has(token.word)) continue;
+      let byVideo = postings.get(token.term);
+      if (!byVideo) {
+        byVideo = new Map();
+        postings.set(token.term, byVideo);
+        sortedTerms = null;
+      }
+      let posting = byVideo.get(id);
+      if (!posting) {
+        posting = {title: [], body: []};
+        byVideo.set(id, posting);
+      }
+      posting[field].push(token.position);
+    }
+  };
+
+  const remove = (id: string) => {
+    const entry = entries.get(id);
+    if (!entry) return;
+    for (const token of [...entry.titleTokens, ...entry.bodyTokens]) {
+      const byVideo = postings.get(token.term);
+      if (!byVideo?.delete(id) || byVideo.size > 0) continue;
+      postings.delete(token.term);
+      sortedTerms = null;
+    }
+    totalLength -= entry.length;
+    entries.delete(id);
+  };
+
+  const add = (video: Video) => {
+    const titleTokens = tokenize(video.title);
+    const bodyTokens = tokenize(video.description);
+    const count = (tokens: Token[]) =>
+      tokens.filter((t) => !STOP_WORDS.has(t.word)).length;
+    const length = TITLE_WEIGHT * count(titleTokens) + count(bodyTokens);
+    entries.set(video.id, {
+      video,
+      title: video.title,
+      description: video.description,
+      titleTokens,
+      bodyTokens,
+      length,
+    });
+    addPositions(video.id, titleTokens, 'title');
+    addPositions(video.id, bodyTokens, 'body');
+    totalLength += length;
+  };
+
+  /** Indexed terms the word being typed could become. */
+  const expandPrefix = (prefix: string): string[] => {
+    sortedTerms ??= [...postings.keys()].sort();
+    const terms = new Set<string>();
+    let lo = 0;
+    let hi = sortedTerms.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (sortedTerms[mid] < prefix) lo = mid + 1;
+      else hi = mid;
+    }
+    for (
+      let i = lo;
+      i < sortedTerms.length &&
+      sortedTerms[i].startsWith(prefix) &&
+      terms.size < MAX_PREFIX_EXPANSIONS;
+      i++
+    ) {
+      terms.add(sortedTerms[i]);
+    }
+    // "dancin" is on its way to "dancing", indexed as "danc".
+    for (let k = 4; k < prefix.length; k++) {
+      if (postings.has(prefix.slice(0, k))) terms.add(prefix.slice(0, k));
+    }
+    return [...terms];
+  };
+
+  /** BM25 score of one term for one video. */
+  const termScore = (term: string, id: string): number => {
+    const byVideo = postings.get(term);
+    const posting = byVideo?.get(id);
+    if (!byVideo || !posting) return 0;
+    const n = entries.size;
+    const idf = Math.log(1 + (n - byVideo.size + 0.5) / (byVideo.size + 0.5));
+    const tf = TITLE_WEIGHT * posting.title.length + posting.body.length;
+    const avgLength = totalLength / n || 1;
+    const norm = K1 * (1 - B + (B * entries.get(id)!.length) / avgLength);
+    return (idf * tf * (K1 + 1)) / (tf + norm);
+  };
+
+  /** Scores of the videos matching a clause, and the terms they matched. */
+  const matchClause = (clause: QueryClause) => {
+    const scores = new Map<string, {score: number; terms: string[]}>();
+    if (clause.phrase) {
+      const lists = clause.terms.map((t) => postings.get(t));
+      if (lists.some((l) => !l)) return scores;
+      const [first, ...others] = lists as Map<string, Posting>[];
+      for (const id of first.keys()) {
+        if (others.some((l) => !l.has(id))) continue;
+        const videoPostings = lists.map((l) => l!.get(id)!);
+        if (
+          !hasPhrase(videoPostings, clause.offsets, 'title') &&
+          !hasPhrase(videoPostings, clause.offsets, 'body')
+        ) {
+          continue;
+        }
+        const score = clause.terms.reduce((s, t) => s + termScore(t, id), 0);
+        scores.set(id, {score: score * PHRASE_BOOST, terms: clause.terms});
+      }
+      return scores;
+    }
+
+    const [term] = clause.terms;
+    const candidates = clause.prefix
+      ? [term, ...expandPrefix(clause.prefix).filter((t) => t !== term)]
+      : [term];
+    candidates.forEach((candidate, i) => {
+      const weight = i === 0 ? 1 : PREFIX_WEIGHT;
+      for (const id of postings.get(candidate)?.keys() ?? []) {
+        const score = termScore(candidate, id) * weight;
+        const best = scores.get(id);
+        if (!best) scores.set(id, {score, terms: [candidate]});
+        else {
+          best.score = Math.max(best.score, score);
+          best.terms.push(candidate);
+        }
+      }
+    });
+    return scores;
+  };
+
+  return {
+    sync: (videos) => {
+      const ids = new Set(videos.map((v) => v.id));
+      for (const id of [...entries.keys()]) {
+        if (!ids.has(id)) remove(id);
+      }
+      for (const video of videos) {
+        const entry = entries.get(video.id);
+        if (
+          entry &&
+          entry.title === video.title &&
+          entry.description === video.description
+        ) {
+          entry.video = video;
+          continue;
+        }
+        remove(video.id);
+        add(video);
+      }
+    },
+    search: (query, limit = Infinity) => {
+      const clauses = parseQuery(query);
+      if (clauses.length === 0) return {results: [], total: 0};
+
+      // Every clause must match, except a half-typed stop word ("cat in")
+      // that doesn't lead anywhere yet.
+      const clauseMatches = clauses
+        .map((clause) => ({clause, matches: matchClause(clause)}))
+        .filter(
+          ({clause, matches}) =>
+            matches.size > 0 ||
+            !clause.prefix ||
+            !STOP_WORDS.has(clause.prefix),
+        )
+        .map(({matches}) => matches)
+        // Intersect from the rarest clause.
+        .sort((a, b) => a.size - b.size);
+      if (clauseMatches.length === 0) return {results: [], total: 0};
+      const [matches, ...others] = clauseMatches;
+      for (const [id, match] of matches) {
+        for (const other of others) {
+          const otherMatch = other.get(id);
+          if (!otherMatch) {
+            matches.delete(id);
+            break;
+          }
+          match.score += otherMatch.score;
+          match.terms.push(...otherMatch.terms);
+        }
+      }
+
+      const ranked = [...matches].sort((a, b) => b[1].score - a[1].score);
+      const results = ranked.slice(0, limit).map(([id, match]) => {
+        const entry = entries.get(id)!;
+        const matched = new Set(match.terms);
+        return {
+          video: entry.video,
+          score: match.score,
+          highlight: {
+            title: highlightText(entry.title, entry.titleTokens, matched),
+            snippet: snippet(entry, matched),
+          },
+        };
+      });
+      return {results, total: ranked.length};
+    },
+  };
+}
@@ -0,0 +1,222 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {GenerateVideosOperation, GoogleGenAI} from '@google/genai';
+import {GenerationConfig, GenerationSettings} from '../types';
+import {decode} from '../utils/audio';
+
+/** Where a generation job is, for the progress screen. */
+export interface GenerationProgress {
+  stage: 'submitting' | 'generating' | 'downloading';
+  /** Estimated completion, in [0, 1]. */
+  fraction: number;
+  elapsedMs: number;
+}
+
+/**
+ * A finished clip: either the downloaded file itself, or a URL it can be
+ * played from.
+ */
+export interface GeneratedClip {
+  media?: Blob;
+  videoUrl?: string;
+  settings: GenerationSettings;
+}
+
+export interface GenerateOptions {
+  onProgress: (progress: GenerationProgress) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * Turns a prompt into a video clip. Long-running: implementations report
+ * progress as they go and reject with a `GenerationError` on failure.
+ */
+export interface VideoGenerator {
+  generate(prompt: string, options: GenerateOptions): Promise<GeneratedClip>;
+}
+
+/**
+ * A failed generation. `needsApiKey` is set when a (different) key is the
+ * likely fix, so the UI can offer to select one.
+ */
+export class GenerationError extends Error {
+  constructor(
+    message: string,
+    readonly needsApiKey = false,
+  ) {
+    super(message);
+    this.name = 'GenerationError';
+  }
+}
+
+/** Share of the progress bar reserved for the download step. */
+const DOWNLOAD_SHARE = 0.1;
+
+/** How long the stub generator pretends to work, and in how many steps. */
+const STUB_DURATION_MS = 5000;
+const STUB_STEPS = 10;
+
+function wait(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    signal?.throwIfAborted();
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, {once: true});
+  });
+}
+
+/** Progress while waiting, approaching but never reaching the download. */
+function estimateFraction(elapsedMs: number, expectedMs: number) {
+  const share = 1 - DOWNLOAD_SHARE;
+  return share * (1 - Math.exp(-elapsedMs / expectedMs));
+}
+
+function toGenerationError(err: unknown): GenerationError {
+  if (err instanceof GenerationError) return err;
+  const message = err instanceof Error ? err.message : String(err);
+  const needsApiKey = /api key|permission|403|401|not found/i.test(message);
+  return new GenerationError(message, needsApiKey);
+}
+
+/**
+ * Generator backed by the Veo API. Submits the job, polls the long-running
+ * operation every `pollIntervalMs`, then downloads the clip into a Blob.
+ */
+export function createVeoGenerator(
+  apiKey: string | undefined,
+  config: GenerationConfig,
+): VideoGenerator {
+  return {
+    generate: async (prompt, {onProgress, signal}) => {
+      if (!apiKey) {
+        throw new GenerationError('No API key is configured.', true);
+      }
+      const ai = new GoogleGenAI({apiKey});
+      const startedAt = Date.now();
+      const report = (stage: GenerationProgress['stage'], fraction: number) =>
+        onProgress({stage, fraction, elapsedMs: Date.now() - startedAt});
+
+      try {
+        report('submitting', 0);
+        let operation: GenerateVideosOperation =
+          await ai.models.generateVideos({
+            model: config.model,
+            prompt,
+            config: {numberOfVideos: 1, aspectRatio: config.aspectRatio},
+          });
+        // The API calls take no signal, so check for a cancel after each.
+        signal?.throwIfAborted();
+        while (!operation.done) {
+          report(
+            'generating',
+            estimateFraction(Date.now() - startedAt, config.expectedDurationMs),
+          );
+          await wait(config.pollIntervalMs, signal);
+          operation = await ai.operations.getVideosOperation({operation});
+          signal?.throwIfAborted();
+        }
+
+        if (operation.error) {
+          throw new GenerationError(
+            String(operation.error.message ?? 'The generation job failed.'),
+          );
+        }
+        const generated = operation.response?.generatedVideos?.[0]?.video;
+        if (!generated) {
+          const reasons = operation.response?.raiMediaFilteredReasons;
+          throw new GenerationError(
+            reasons?.length
+              ? reasons.join(' ')
+              : 'The model did not return a video.',
+          );
+        }
+
+        report('downloading', 1 - DOWNLOAD_SHARE);
+        let blob: Blob;
+        if (generated.videoBytes) {
+          blob = new Blob([decode(generated.videoBytes)], {
+            type: generated.mimeType ?? 'video/mp4',
+          });
+        } else if (generated.uri) {
+          const url = new URL(generated.uri);
+          url.searchParams.set('key', apiKey);
+          const response = await fetch(url, {signal});
+          if (!response.ok) {
+            throw new GenerationError(
+              `Downloading the video failed (${response.status}).`,
+            );
+          }
+          blob = await response.blob();
+          signal?.throwIfAborted();
+        } else {
+          throw new GenerationError('The model did not return a video.');
+        }
+        report('downloading', 1);
+        return {
+          media: blob,
+          settings: {
+            model: config.model,
+            aspectRatio: config.aspectRatio,
+            generatedAt: Date.now(),
+          },
+        };
+      } catch (err) {
+        if (signal?.aborted) throw err;
+        throw toGenerationError(err);
+      }
+    },
+  };
+}
+
+/**
+ * Offline stand-in that walks through the same stages on a timer and
+ * returns `stubFixtureUrl`, or fails at the end when `stubOutcome` is
+ * `error`.
+ */
+export function createStubGenerator(config: GenerationConfig): VideoGenerator {
+  return {
+    generate: async (_prompt, {onProgress, signal}) => {
+      const startedAt = Date.now();
+      onProgress({stage: 'submitting', fraction: 0, elapsedMs: 0});
+      for (let i = 1; i <= STUB_STEPS; i++) {
+        await wait(STUB_DURATION_MS / STUB_STEPS, signal);
+        onProgress({
+          stage: i < STUB_STEPS ? 'generating' : 'downloading',
+          fraction: i / STUB_STEPS,
+          elapsedMs: Date.now() - startedAt,
+        });
+      }
+      if (config.stubOutcome === 'error') {
+        throw new GenerationError('The stub generator was set to fail.', true);
+      }
+      return {
+        videoUrl: config.stubFixtureUrl,
+        settings: {
+          model: 'stub',
+          aspectRatio: config.aspectRatio,
+          generatedAt: Date.now(),
+        },
+      };
+    },
+  };
+}
+
+/**
+ * Picks the generator named by the generation config.
+ */
+export function createVideoGenerator(config: GenerationConfig): VideoGenerator {
+  switch (config.generator) {
+    case 'stub':
+      return createStubGenerator(config);
+    case 'veo':
+      return createVeoGenerator(process.env.API_KEY, config);
+  }
+}
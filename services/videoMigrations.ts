@@ -0,0 +1,46 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {Video} from '../types';
+import {withDerivedMetadata} from '../utils/videoMetadata';
+
+/**
+ * Version of the stored `Video` shape. Bump it whenever a change to `Video`
+ * needs existing records rewritten, and add the step to `MIGRATIONS`.
+ */
+export const VIDEO_SCHEMA_VERSION = 2;
+
+/**
+ * Upgrades a stored video from the version it is keyed under to the next
+ * one. Fields added since the first schema are optional on `Video`, so an
+ * older record is a `Video` with those fields missing.
+ */
+const MIGRATIONS: Record<number, (video: Video) => Video> = {
+  // v2 adds style tags, year and creation date. Remixes know when they were
+  // generated; duration, size and audio are read from the media later.
+  1: (video) =>
+    withDerivedMetadata({
+      ...video,
+      createdAt: video.createdAt ?? video.generationSettings?.generatedAt,
+    }),
+};
+
+/**
+ * Brings a stored video up to `VIDEO_SCHEMA_VERSION`, one step at a time.
+ * Throws for records written by a newer build, which this one can't read.
+ */
+export function migrateVideo(video: unknown, fromVersion: number): Video {
+  if (fromVersion > VIDEO_SCHEMA_VERSION) {
+    throw new Error(
+      `Stored video uses schema ${fromVersion}, newer than ${VIDEO_SCHEMA_VERSION}`,
+    );
+  }
+  let migrated = video as Video;
+  for (let v = fromVersion; v < VIDEO_SCHEMA_VERSION; v++) {
+    const step = MIGRATIONS[v];
+    if (!step) throw new Error(`No migration from video schema ${v}`);
+    migrated = step(migrated);
+  }
+  return migrated;
+}
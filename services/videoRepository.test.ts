@@ -0,0 +1,118 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {afterEach, describe, expect, it, vi} from 'vitest';
+import {Video} from '../types';
+import {migrateVideo, VIDEO_SCHEMA_VERSION} from './videoMigrations';
+import {createMemoryVideoRepository} from './videoRepository';
+
+function video(id: string, extra: Partial<Video> = {}): Video {
+  return {
+    id,
+    videoUrl: `https://example.com/${id}.mp4`,
+    title: `Video ${id}`,
+    description: 'A calm lake at sunrise',
+    ...extra,
+  };
+}
+
+describe('createMemoryVideoRepository', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('lists the seed videos in the order given', async () => {
+    const repository = createMemoryVideoRepository([video('a'), video('b')]);
+    expect((await repository.list()).map((v) => v.id)).toEqual(['a', 'b']);
+  });
+
+  it('lists videos added later first', async () => {
+    vi.useFakeTimers({now: 1000});
+    const repository = createMemoryVideoRepository([video('a')]);
+    vi.setSystemTime(2000);
+    await repository.put(video('new'));
+    expect((await repository.list()).map((v) => v.id)).toEqual(['new', 'a']);
+  });
+
+  it('keeps the position of a replaced video', async () => {
+    const repository = createMemoryVideoRepository([video('a'), video('b')]);
+    await repository.put(video('b', {title: 'Renamed'}));
+    const videos = await repository.list();
+    expect(videos.map((v) => v.id)).toEqual(['a', 'b']);
+    expect(videos[1].title).toBe('Renamed');
+  });
+
+  it('applies updates on top of the stored video', async () => {
+    const repository = createMemoryVideoRepository([video('a')]);
+    await repository.update('a', {duration: 8});
+    const updated = await repository.update('a', {title: 'Renamed'});
+    expect(updated).toMatchObject({duration: 8, title: 'Renamed'});
+    expect(await repository.get('a')).toEqual(updated);
+  });
+
+  it('rejects updates to a missing video', async () => {
+    const repository = createMemoryVideoRepository();
+    await expect(repository.update('nope', {title: 'x'})).rejects.toThrow(
+      'No video with id "nope"',
+    );
+  });
+
+  it('deletes videos', async () => {
+    const repository = createMemoryVideoRepository([video('a'), video('b')]);
+    await repository.delete('a');
+    expect(await repository.get('a')).toBeUndefined();
+    expect((await repository.list()).map((v) => v.id)).toEqual(['b']);
+  });
+
+  it('revokes the media URL when the media is replaced', async () => {
+    const revoke = vi.spyOn(URL, 'revokeObjectURL');
+    const repository = createMemoryVideoRepository();
+    const first = await repository.put(video('up'), new Blob(['data']));
+    await repository.update('up', {duration: 8});
+    expect(revoke).not.toHaveBeenCalled();
+    const second = await repository.put(video('up'), new Blob(['other']));
+    expect(second.videoUrl).not.toBe(first.videoUrl);
+    expect(revoke).toHaveBeenCalledWith(first.videoUrl);
+  });
+
+  it('serves stored media from an object URL', async () => {
+    const repository = createMemoryVideoRepository();
+    const stored = await repository.put(video('up'), new Blob(['data']));
+    expect(stored.videoUrl).toMatch(/^blob:/);
+    expect((await repository.get('up'))?.videoUrl).toBe(stored.videoUrl);
+  });
+});
+
+describe('migrateVideo', () => {
+  it('fills in tags and dates for schema 1 videos', () => {
+    const migrated = migrateVideo(
+      video('remix', {
+        description: 'Claymation: a robot waters its plants',
+        generationSettings: {
+          model: 'veo',
+          aspectRatio: '16:9',
+          generatedAt: Date.UTC(2025, 5, 1),
+        },
+      }),
+      1,
+    );
+    expect(migrated).toMatchObject({
+      tags: ['Claymation'],
+      year: 2025,
+      createdAt: Date.UTC(2025, 5, 1),
+    });
+  });
+
+  it('leaves current videos as they are', () => {
+    const current = video('a', {tags: []});
+    expect(migrateVideo(current, VIDEO_SCHEMA_VERSION)).toEqual(current);
+  });
+
+  it('rejects videos from a newer schema', () => {
+    expect(() => migrateVideo(video('a'), VIDEO_SCHEMA_VERSION + 1)).toThrow(
+      /newer than/,
+    );
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {Video} from '../types';
+import {createIndexedDbVideoRepository} from './indexedDbVideoRepository';
+import {migrateVideo, VIDEO_SCHEMA_VERSION} from './videoMigrations';
+
+/** Changes that can be applied to a stored video. */
+export type VideoChanges = Partial<Omit<Video, 'id'>>;
+
+/**
+ * Stores the video catalog. Videos whose media lives in the store itself
+ * (uploads, generated remixes) are returned with an object URL as their
+ * `videoUrl`, valid until the video is replaced or deleted.
+ */
+export interface VideoRepository {
+  /** All videos, most recently added first. */
+  list(): Promise<Video[]>;
+  get(id: string): Promise<Video | undefined>;
+  /**
+   * Adds a video, or replaces the one with the same id (media included).
+   * Pass `media` to keep the file itself in the store rather than relying on
+   * `videoUrl`.
+   */
+  put(video: Video, media?: Blob): Promise<Video>;
+  /** Applies `changes` to a stored video and returns the result. */
+  update(id: string, changes: VideoChanges): Promise<Video>;
+  delete(id: string): Promise<void>;
+}
+
+/** How a video is kept in a store. */
+export interface StoredVideo {
+  id: string;
+  /** The video as it was written, in schema `schemaVersion`. */
+  video: unknown;
+  schemaVersion: number;
+  media?: Blob;
+  addedAt: number;
+}
+
+/**
+ * Wraps a video for storage. Blob-backed videos are stored without their
+ * temporary object URL.
+ */
+export function toStoredVideo(
+  video: Video,
+  media: Blob | undefined,
+  addedAt: number,
+): StoredVideo {
+  return {
+    id: video.id,
+    video: media ? {...video, videoUrl: ''} : video,
+    schemaVersion: VIDEO_SCHEMA_VERSION,
+    media,
+    addedAt,
+  };
+}
+
+/**
+ * Seed records in the order given, so the first seed lists first.
+ */
+export function toSeedRecords(seed: Video[]): StoredVideo[] {
+  const now = Date.now();
+  return seed.map((video, i) => toStoredVideo(video, undefined, now - i));
+}
+
+/**
+ * Hands out one object URL per stored video and revokes it once the video is
+ * replaced or deleted. URLs are kept by video id, as a store may return a new
+ * `Blob` for the same media on every read (IndexedDB does).
+ */
+export class MediaUrlCache {
+  private urls = new Map<string, string>();
+
+  /** Returns the stored video in the current schema, with a playable URL. */
+  resolve(record: StoredVideo): Video {
+    const video = migrateVideo(record.video, record.schemaVersion);
+    if (!record.media) {
+      this.release(record.id);
+      return video;
+    }
+    let url = this.urls.get(record.id);
+    if (!url) {
+      url = URL.createObjectURL(record.media);
+      this.urls.set(record.id, url);
+    }
+    return {...video, videoUrl: url};
+  }
+
+  /** Revokes the video's URL; call when its media is replaced or deleted. */
+  release(id: string) {
+    const url = this.urls.get(id);
+    if (url) {
+      URL.revokeObjectURL(url);
+      this.urls.delete(id);
+    }
+  }
+}
+
+/**
+ * Applies `changes` to a record, keeping its media and position.
+ */
+export function applyChanges(
+  record: StoredVideo,
+  current: Video,
+  changes: VideoChanges,
+): StoredVideo {
+  return toStoredVideo({...current, ...changes}, record.media, record.addedAt);
+}
+
+/** Orders records for `list()`, most recently added first. */
+export function sortRecords(records: StoredVideo[]): StoredVideo[] {
+  return [...records].sort((a, b) => b.addedAt - a.addedAt);
+}
+
+/**
+ * Keeps the catalog in memory only. Used in tests and when IndexedDB is not
+ * available (e.g. some private browsing modes); nothing survives a reload.
+ */
+export function createMemoryVideoRepository(
+  seed: Video[] = [],
+): VideoRepository {
+  const records = new Map(toSeedRecords(seed).map((r) => [r.id, r]));
+  const media = new MediaUrlCache();
+
+  const getRecord = (id: string) => {
+    const record = records.get(id);
+    if (!record) throw new Error(`No video with id "${id}"`);
+    return record;
+  };
+
+  return {
+    list: async () =>
+      sortRecords([...records.values()]).map((r) => media.resolve(r)),
+    get: async (id) => {
+      const record = records.get(id);
+      return record ? media.resolve(record) : undefined;
+    },
+    put: async (video, blob) => {
+      const addedAt = records.get(video.id)?.addedAt ?? Date.now();
+      const record = toStoredVideo(video, blob, addedAt);
+      records.set(video.id, record);
+      media.release(video.id);
+      return media.resolve(record);
+    },
+    update: async (id, changes) => {
+      const record = getRecord(id);
+      const updated = applyChanges(record, media.resolve(record), changes);
+      records.set(id, updated);
+      return media.resolve(updated);
+    },
+    delete: async (id) => {
+      records.delete(id);
+      media.release(id);
+    },
+  };
+}
+
+/**
+ * Picks the persistent IndexedDB store where the browser has one, falling
+ * back to memory. `seed` is only written when the store is first created.
+ */
+export function createVideoRepository(seed: Video[]): VideoRepository {
+  if (typeof indexedDB === 'undefined') {
+    return createMemoryVideoRepository(seed);
+  }
+  return createIndexedDbVideoRepository(seed);
+}
@@ -0,0 +1,85 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {Video} from '../types';
+import {
+  captureFrameDataUrl,
+  loadVideoElement,
+  releaseVideoElement,
+  seekVideo,
+} from '../utils/videoElement';
+import {detectAudio, withDerivedMetadata} from '../utils/videoMetadata';
+
+/** File types accepted for upload, as MIME type and extension. */
+export const ACCEPTED_VIDEO_TYPES: Record<string, string> = {
+  'video/mp4': '.mp4',
+  'video/webm': '.webm',
+};
+
+/** Width of the poster frame captured from uploads. */
+const POSTER_WIDTH = 640;
+
+/** A local file turned into a catalog entry, ready to store. */
+export interface UploadedVideo {
+  video: Video;
+  media: Blob;
+}
+
+function isAcceptedFile(file: File): boolean {
+  if (file.type in ACCEPTED_VIDEO_TYPES) return true;
+  const name = file.name.toLowerCase();
+  return Object.values(ACCEPTED_VIDEO_TYPES).some((ext) => name.endsWith(ext));
+}
+
+/** "my_holiday-clip.mp4" becomes "my holiday clip". */
+function titleFromFileName(name: string): string {
+  const base = name.replace(/\.[^.]+$/, '').replace(/[_-]+/g, ' ').trim();
+  return base || 'Untitled upload';
+}
+
+/**
+ * Reads a local MP4 or WebM file into a catalog entry: its duration and
+ * resolution come from a hidden video element, and a frame a little way in
+ * is captured as the poster. The file itself is returned as the media to
+ * store; the entry's `videoUrl` is filled in once it is stored.
+ */
+export async function readVideoFile(file: File): Promise<UploadedVideo> {
+  if (!isAcceptedFile(file)) {
+    throw new Error(`"${file.name}" is not an MP4 or WebM video.`);
+  }
+
+  const url = URL.createObjectURL(file);
+  let element: HTMLVideoElement | null = null;
+  try {
+    try {
+      element = await loadVideoElement(url);
+    } catch {
+      throw new Error(`"${file.name}" could not be decoded by this browser.`);
+    }
+    const duration = Number.isFinite(element.duration)
+      ? element.duration
+      : undefined;
+    // Skip black opening frames, but stay early in short clips.
+    await seekVideo(element, Math.min(1, (duration ?? 0) * 0.1));
+
+    // Several files may be read in the same millisecond.
+    const suffix = Math.random().toString(36).slice(2, 6);
+    const video = withDerivedMetadata({
+      id: `upload-${Date.now().toString(36)}-${suffix}`,
+      videoUrl: '',
+      title: titleFromFileName(file.name),
+      description: `A video uploaded from the file "${file.name}".`,
+      posterUrl: captureFrameDataUrl(element, POSTER_WIDTH, 0.7),
+      duration,
+      width: element.videoWidth,
+      height: element.videoHeight,
+      hasAudio: detectAudio(element),
+      createdAt: Date.now(),
+    });
+    return {video, media: file};
+  } finally {
+    if (element) releaseVideoElement(element);
+    URL.revokeObjectURL(url);
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {WatchProgress} from '../types';
+
+/** The viewer's progress in each video they started, by video id. */
+export type WatchHistory = Record<string, WatchProgress>;
+
+/** Bump when the stored format changes, to drop old entries. */
+const STORAGE_KEY = 'watchHistory:v1';
+/** Share of a video after which it counts as watched to the end. */
+const COMPLETED_FRACTION = 0.95;
+/** Positions this close to the start are not worth resuming from. */
+const MIN_RESUME_SECONDS = 5;
+/** Oldest entries are dropped beyond this many. */
+const MAX_ENTRIES = 500;
+
+/** How much of the video was watched, from 0 to 1. */
+export function watchedFraction(progress: WatchProgress): number {
+  if (progress.duration <= 0) return 0;
+  return Math.min(1, Math.max(0, progress.position / progress.duration));
+}
+
+export function isCompleted(progress: WatchProgress): boolean {
+  return watchedFraction(progress) >= COMPLETED_FRACTION;
+}
+
+/**
+ * Where to offer to pick the video up again, or null if it was barely
+ * started or already finished.
+ */
+export function resumePosition(progress?: WatchProgress): number | null {
+  if (!progress || isCompleted(progress)) return null;
+  return progress.position >= MIN_RESUME_SECONDS ? progress.position : null;
+}
+
+/** Entries, most recently watched first. */
+export function recentlyWatched(history: WatchHistory): WatchProgress[] {
+  return Object.values(history).sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+/** Reads the history saved in this browser. */
+export function loadWatchHistory(): WatchHistory {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as WatchHistory) : {};
+  } catch {
+    return {};
+  }
+}
+
+/** Saves the history, keeping only the most recent entries. */
+export function saveWatchHistory(history: WatchHistory) {
+  const entries = recentlyWatched(history).slice(0, MAX_ENTRIES);
+  try {
+    localStorage.setItem(
+      STORAGE_KEY,
+      JSON.stringify(Object.fromEntries(entries.map((e) => [e.videoId, e]))),
+    );
+  } catch {
+    // Storage is full or unavailable; progress lasts for this visit only.
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {describe, expect, it} from 'vitest';
+import {Video} from '../types';
+import {exportWatchlist, moveItem, parseWatchlistExport} from './watchlist';
+
+describe('moveItem', () => {
+  it('moves an item later, after the target', () => {
+    expect(moveItem(['a', 'b', 'c', 'd'], 'a', 'c')).toEqual([
+      'b',
+      'c',
+      'a',
+      'd',
+    ]);
+  });
+
+  it('moves an item earlier, before the target', () => {
+    expect(moveItem(['a', 'b', 'c', 'd'], 'd', 'b')).toEqual([
+      'a',
+      'd',
+      'b',
+      'c',
+    ]);
+  });
+
+  it('moves past ids that are not shown', () => {
+    // "hidden" is saved but missing from the catalog, so the grid shows
+    // a, b, c and moving b later swaps it with c.
+    expect(moveItem(['a', 'b', 'hidden', 'c'], 'b', 'c')).toEqual([
+      'a',
+      'hidden',
+      'c',
+      'b',
+    ]);
+  });
+
+  it('leaves the list alone for unknown ids', () => {
+    const ids = ['a', 'b'];
+    expect(moveItem(ids, 'x', 'a')).toBe(ids);
+    expect(moveItem(ids, 'a', 'x')).toBe(ids);
+  });
+});
+
+describe('parseWatchlistExport', () => {
+  it('reads back an exported list', () => {
+    const catalog: Video[] = [
+      {id: 'a', videoUrl: '', title: 'A', description: ''},
+    ];
+    const exported = exportWatchlist(['a', 'gone'], catalog);
+    expect(parseWatchlistExport(exported)).toEqual(['a', 'gone']);
+  });
+
+  it('accepts a plain array of ids', () => {
+    expect(parseWatchlistExport('["a", 2, "b"]')).toEqual(['a', 'b']);
+  });
+
+  it('rejects files that are not watchlists', () => {
+    expect(() => parseWatchlistExport('not json')).toThrow('not valid JSON');
+    expect(() => parseWatchlistExport('{"videos": 1}')).toThrow(
+      'does not contain a watchlist',
+    );
+    expect(() => parseWatchlistExport('{"version": 99, "videos": []}')).toThrow(
+      'newer version',
+    );
+  });
+});
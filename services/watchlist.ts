@@ -0,0 +1,97 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {Video} from '../types';
+
+/** Bump when the stored format changes, to drop old entries. */
+const STORAGE_KEY = 'watchlist:v1';
+/** Version of the export file format. */
+const EXPORT_VERSION = 1;
+
+/**
+ * A saved watchlist as written by `exportWatchlist`. Titles are there for
+ * people reading the file; only the ids are read back.
+ */
+interface WatchlistExport {
+  version: number;
+  exportedAt: string;
+  videos: {id: string; title: string}[];
+}
+
+/** Reads the watchlist saved in this browser, in the viewer's order. */
+export function loadWatchlist(): string[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    const ids: unknown = stored ? JSON.parse(stored) : [];
+    return Array.isArray(ids)
+      ? ids.filter((id) => typeof id === 'string')
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveWatchlist(ids: string[]) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(ids));
+  } catch {
+    // Storage is full or unavailable; the list lasts for this visit only.
+  }
+}
+
+/**
+ * Returns `ids` with `id` moved to where `targetId` is: just before it when
+ * moving earlier, just after it when moving later.
+ */
+export function moveItem(
+  ids: string[],
+  id: string,
+  targetId: string,
+): string[] {
+  const from = ids.indexOf(id);
+  const to = ids.indexOf(targetId);
+  if (from < 0 || to < 0 || from === to) return ids;
+  const next = ids.filter((other) => other !== id);
+  next.splice(to, 0, id);
+  return next;
+}
+
+/** Writes the watchlist as pretty-printed JSON. */
+export function exportWatchlist(ids: string[], catalog: Video[]): string {
+  const data: WatchlistExport = {
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    videos: ids.map((id) => ({
+      id,
+      title: catalog.find((v) => v.id === id)?.title ?? '',
+    })),
+  };
+  return JSON.stringify(data, null, 2);
+}
+
+/**
+ * Reads the video ids from an exported watchlist. Also accepts a plain array
+ * of ids. Throws if the text is not a watchlist.
+ */
+export function parseWatchlistExport(text: string): string[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  const items = Array.isArray(data)
+    ? data
+    : (data as Partial<WatchlistExport> | null)?.videos;
+  if (!Array.isArray(items)) {
+    throw new Error('The file does not contain a watchlist.');
+  }
+  const version = (data as Partial<WatchlistExport>).version;
+  if (typeof version === 'number' && version > EXPORT_VERSION) {
+    throw new Error('The watchlist was exported by a newer version.');
+  }
+  return items
+    .map((item) => (typeof item === 'string' ? item : item?.id))
+    .filter((id): id is string => typeof id === 'string');
+}
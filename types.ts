@@ -11,4 +11,148 @@ export interface Video {
   videoUrl: string;
   title: string;
   description: string;
+  /** Still shown before playback starts, as an image or data URL. */
+  posterUrl?: string;
+  /** Length in seconds, once known. */
+  duration?: number;
+  /** Frame size in pixels, once known. */
+  width?: number;
+  height?: number;
+  /** Whether the media has a sound track, once known. */
+  hasAudio?: boolean;
+  /** Style and genre tags, derived from the prompt's style prefix. */
+  tags?: string[];
+  /** Year the video was made. */
+  year?: number;
+  /** When the video was made (generated or uploaded), as epoch milliseconds. */
+  createdAt?: number;
+  /** Scene chapters, once the video has been indexed. */
+  chapters?: Chapter[];
+  /** The video this one was remixed from. */
+  parentId?: string;
+  /** The parent's prompt at the time of the remix. */
+  originalPrompt?: string;
+  /** How a remix was generated. */
+  generationSettings?: GenerationSettings;
+}
+
+/**
+ * How far the viewer got in a video.
+ */
+export interface WatchProgress {
+  videoId: string;
+  /** Playback position, in seconds. */
+  position: number;
+  /** Length of the video, in seconds. */
+  duration: number;
+  /** When the position was saved, as epoch milliseconds. */
+  updatedAt: number;
+}
+
+/**
+ * The settings a remix was generated with.
+ */
+export interface GenerationSettings {
+  model: string;
+  aspectRatio: string;
+  /** When the generation finished, as epoch milliseconds. */
+  generatedAt: number;
+}
+
+/**
+ * A stretch of a video between two detected shot boundaries.
+ */
+export interface Chapter {
+  /** Start of the chapter, in seconds. */
+  start: number;
+  /** End of the chapter (the next chapter's start), in seconds. */
+  end: number;
+  title: string;
+  /** Small JPEG data URL of the chapter's first frame. */
+  thumbnail: string;
+}
+
+/**
+ * What happens to the video while the companion is speaking: lower its
+ * volume, pause it, or leave it alone.
+ */
+export type SpeechPlaybackPolicy = 'duck' | 'pause' | 'none';
+
+/** Where the AI companion opens its Live sessions. */
+export type CompanionTransportKind = 'gemini' | 'mock' | 'websocket';
+
+/**
+ * Settings for the AI companion's Live connection.
+ */
+export interface CompanionConfig {
+  transport: CompanionTransportKind;
+  model: string;
+  /** URL of a local mock Live server, used by the `websocket` transport. */
+  mockServerUrl: string;
+  /** Name of the scripted session replayed by the `mock` transport. */
+  mockScript: string;
+  /** How many times to retry a dropped session before giving up. */
+  maxReconnectAttempts: number;
+  /** Delay before the first retry; doubles with each further attempt. */
+  reconnectBaseDelayMs: number;
+  /** Initial policy for the video while the companion speaks. */
+  speechPlaybackPolicy: SpeechPlaybackPolicy;
+  /** Fraction of the video's volume kept while ducked. */
+  duckVolume: number;
+  /** Average bytes per second of video frames sent to the companion. */
+  frameBytesPerSecond: number;
+}
+
+/**
+ * How the user talks to the companion: by microphone, or by typing when no
+ * microphone is available or wanted.
+ */
+export type CompanionInputMode = 'voice' | 'text';
+
+/**
+ * When microphone audio reaches the companion: continuously, only while a
+ * push-to-talk key or button is held, or never.
+ */
+export type MicMode = 'always-on' | 'push-to-talk' | 'muted';
+
+/** Who spoke a turn in the companion conversation. */
+export type TranscriptSpeaker = 'user' | 'companion';
+
+/**
+ * One turn of the companion conversation, tied to the moment in the video at
+ * which it started.
+ */
+export interface TranscriptTurn {
+  id: string;
+  speaker: TranscriptSpeaker;
+  text: string;
+  /** Playback position, in seconds, when the turn started. */
+  videoTime: number;
+  /** Wall-clock time (ms since epoch) when the turn started. */
+  createdAt: number;
+  /** False while more transcription for this turn may still arrive. */
+  final: boolean;
+}
+
+/**
+ * Which backend generates remixes: the Veo API, or a local stub that returns
+ * a fixture clip without a key.
+ */
+export type VideoGeneratorKind = 'veo' | 'stub';
+
+/**
+ * Settings for remix generation.
+ */
+export interface GenerationConfig {
+  generator: VideoGeneratorKind;
+  model: string;
+  aspectRatio: string;
+  /** How often to poll the long-running generation operation. */
+  pollIntervalMs: number;
+  /** Typical time a generation takes, used to estimate progress. */
+  expectedDurationMs: number;
+  /** Clip returned by the stub generator. */
+  stubFixtureUrl: string;
+  /** Whether the stub generator succeeds or fails, to exercise both paths. */
+  stubOutcome: 'success' | 'error';
 }
@@ -0,0 +1,58 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {describe, expect, it} from 'vitest';
+import {bytesToBase64, createPcmBlob, decode, encodePcm16} from './audio';
+
+describe('encodePcm16', () => {
+  it('maps the ends of the range to the 16-bit extremes', () => {
+    expect([...encodePcm16(new Float32Array([1, -1, 0]))]).toEqual([
+      32767, -32768, 0,
+    ]);
+  });
+
+  it('clamps samples outside [-1, 1]', () => {
+    const samples = new Float32Array([1.5, -2, 100, -Infinity]);
+    expect([...encodePcm16(samples)]).toEqual([32767, -32768, 32767, -32768]);
+  });
+
+  it('scales samples in between', () => {
+    expect([...encodePcm16(new Float32Array([0.5, -0.5]))]).toEqual([
+      16383, -16384,
+    ]);
+  });
+});
+
+describe('createPcmBlob', () => {
+  it('writes samples little-endian', () => {
+    const blob = createPcmBlob(new Int16Array([0x1234, -2]));
+    expect([...decode(blob.data)]).toEqual([0x34, 0x12, 0xfe, 0xff]);
+  });
+
+  it('only encodes the samples the view covers', () => {
+    const pcm = new Int16Array([1, 2, 3, 4]).subarray(1, 3);
+    expect([...decode(createPcmBlob(pcm).data)]).toEqual([2, 0, 3, 0]);
+  });
+
+  it('labels the data with its sample rate', () => {
+    expect(createPcmBlob(new Int16Array(0)).mimeType).toBe(
+      'audio/pcm;rate=16000',
+    );
+    expect(createPcmBlob(new Int16Array(0), 24000).mimeType).toBe(
+      'audio/pcm;rate=24000',
+    );
+  });
+});
+
+describe('bytesToBase64', () => {
+  it('encodes buffers larger than one slice', () => {
+    const bytes = new Uint8Array(0x8000 * 2 + 123);
+    for (let i = 0; i < bytes.length; i++) bytes[i] = (i * 31) % 256;
+    expect(bytesToBase64(bytes)).toBe(Buffer.from(bytes).toString('base64'));
+  });
+
+  it('encodes an empty buffer', () => {
+    expect(bytesToBase64(new Uint8Array(0))).toBe('');
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// --- Audio Helper Functions ---
+
+/** Sample rate the Live API expects for microphone audio. */
+export const INPUT_SAMPLE_RATE = 16000;
+
+/**
+ * Converts float samples in [-1, 1] to signed 16-bit PCM, clamping anything
+ * out of range.
+ */
+export function encodePcm16(samples: Float32Array): Int16Array {
+  const pcm = new Int16Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    const s = Math.max(-1, Math.min(1, samples[i]));
+    pcm[i] = s < 0 ? s * 0x8000 : s * 0x7fff;
+  }
+  return pcm;
+}
+
+/**
+ * Base64-encodes bytes in slices, so large buffers don't overflow the
+ * argument limit of `String.fromCharCode`.
+ */
+export function bytesToBase64(bytes: Uint8Array): string {
+  const SLICE = 0x8000;
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += SLICE) {
+    binary += String.fromCharCode.apply(
+      null,
+      bytes.subarray(i, i + SLICE) as unknown as number[],
+    );
+  }
+  return btoa(binary);
+}
+
+/**
+ * Wraps 16-bit PCM as a Live API media blob.
+ */
+export function createPcmBlob(
+  pcm: Int16Array,
+  sampleRate = INPUT_SAMPLE_RATE,
+) {
+  return {
+    data: bytesToBase64(
+      new Uint8Array(pcm.buffer, pcm.byteOffset, pcm.byteLength),
+    ),
+    mimeType: `audio/pcm;rate=${sampleRate}`,
+  };
+}
+
+export function decode(base64: string) {
+  const binaryString = atob(base64);
+  const len = binaryString.length;
+  const bytes = new Uint8Array(len);
+  for (let i = 0; i < len; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+  return bytes;
+}
+
+export async function decodeAudioData(
+  data: Uint8Array,
+  ctx: AudioContext,
+  sampleRate: number,
+  numChannels: number,
+): Promise<AudioBuffer> {
+  const dataInt16 = new Int16Array(data.buffer);
+  const frameCount = dataInt16.length / numChannels;
+  const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
+
+  for (let channel = 0; channel < numChannels; channel++) {
+    const channelData = buffer.getChannelData(channel);
+    for (let i = 0; i < frameCount; i++) {
+      channelData[i] = dataInt16[i * numChannels + channel] / 32768.0;
+    }
+  }
+  return buffer;
+}
+
+/** FFT size for the level meters; small, since only coarse bands are drawn. */
+export const ANALYSER_FFT_SIZE = 256;
+
+/**
+ * Creates an analyser tuned for the companion level meters.
+ */
+export function createLevelAnalyser(ctx: BaseAudioContext): AnalyserNode {
+  const analyser = ctx.createAnalyser();
+  analyser.fftSize = ANALYSER_FFT_SIZE;
+  analyser.smoothingTimeConstant = 0.6;
+  return analyser;
+}
+
+/**
+ * Root-mean-square level of the analyser's current time-domain window.
+ * `scratch` must hold at least `fftSize` samples.
+ */
+export function measureRms(
+  analyser: AnalyserNode,
+  scratch: Float32Array,
+): number {
+  const samples = scratch.subarray(0, analyser.fftSize);
+  analyser.getFloatTimeDomainData(samples);
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) {
+    sum += samples[i] * samples[i];
+  }
+  return Math.sqrt(sum / samples.length);
+}
+
+/**
+ * Averages the analyser's spectrum up to `maxHz` (the speech range by
+ * default) into `count` bands, each in [0, 1]. `scratch` must hold at least
+ * `frequencyBinCount` bytes.
+ */
+export function measureBands(
+  analyser: AnalyserNode,
+  scratch: Uint8Array,
+  count: number,
+  maxHz = 4000,
+): number[] {
+  const bins = scratch.subarray(0, analyser.frequencyBinCount);
+  analyser.getByteFrequencyData(bins);
+  const hzPerBin = analyser.context.sampleRate / analyser.fftSize;
+  const usable = Math.min(bins.length, Math.ceil(maxHz / hzPerBin));
+  const perBand = Math.max(1, Math.floor(usable / count));
+  const bands: number[] = [];
+  for (let b = 0; b < count; b++) {
+    let sum = 0;
+    for (let i = b * perBand; i < (b + 1) * perBand; i++) {
+      sum += bins[i] ?? 0;
+    }
+    bands.push(sum / perBand / 255);
+  }
+  return bands;
+}
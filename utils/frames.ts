@@ -0,0 +1,47 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// --- Frame Comparison Helpers ---
+
+/** Size of the grayscale thumbnail used to compare frames. */
+export const PROBE_WIDTH = 32;
+export const PROBE_HEIGHT = 18;
+
+/**
+ * Creates the small canvas frames are drawn into before comparing them.
+ */
+export function createProbeContext(): CanvasRenderingContext2D | null {
+  const canvas = document.createElement('canvas');
+  canvas.width = PROBE_WIDTH;
+  canvas.height = PROBE_HEIGHT;
+  return canvas.getContext('2d', {willReadFrequently: true});
+}
+
+/**
+ * Draws the current frame of `video` into the probe and returns its
+ * luminance, one byte per pixel.
+ */
+export function probeLuma(
+  ctx: CanvasRenderingContext2D,
+  video: HTMLVideoElement,
+): Uint8Array {
+  ctx.drawImage(video, 0, 0, PROBE_WIDTH, PROBE_HEIGHT);
+  const {data} = ctx.getImageData(0, 0, PROBE_WIDTH, PROBE_HEIGHT);
+  const luma = new Uint8Array(PROBE_WIDTH * PROBE_HEIGHT);
+  for (let i = 0; i < luma.length; i++) {
+    const p = i * 4;
+    luma[i] = (data[p] * 77 + data[p + 1] * 150 + data[p + 2] * 29) >> 8;
+  }
+  return luma;
+}
+
+/** Mean absolute difference of two luma probes, in [0, 1]. */
+export function lumaDifference(a: Uint8Array, b: Uint8Array): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += Math.abs(a[i] - b[i]);
+  }
+  return sum / a.length / 255;
+}
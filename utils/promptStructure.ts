@@ -0,0 +1,184 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/** The kinds of sentence a video prompt is made of. */
+export type PromptSection =
+  | 'setting'
+  | 'action'
+  | 'camera'
+  | 'dialogue'
+  | 'sound';
+
+/** One sentence of a prompt, tagged with the section it belongs to. */
+export interface PromptSegment {
+  id: string;
+  section: PromptSection;
+  text: string;
+}
+
+/**
+ * A prompt split into its optional style prefix (e.g. "Claymation:") and its
+ * sentences, in their original order.
+ */
+export interface StructuredPrompt {
+  style: string;
+  segments: PromptSegment[];
+}
+
+export interface PromptIssue {
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+/** Longest prompt accepted for generation, in characters. */
+export const MAX_PROMPT_LENGTH = 2000;
+
+/** A style prefix is a short label before the first colon. */
+const MAX_STYLE_WORDS = 6;
+
+const CAMERA_PATTERN =
+  /\b(camera|shot|close-up|zooms?|pans?|tracking|dolly|aerial|pulls? back|pov|angle|frame)\b/i;
+const SOUND_PATTERN =
+  /\b(sounds?|sfx|music|audio|soundtrack|score|noise|hum|whirr?ing|murmurs?|chatter|splash|rumble|echo(es)?|melody|beat|chirp(s|ing)?|bells?|chimes?|tune|piano|bass|flute|grumble)\b/i;
+const SPEECH_PATTERN =
+  /\b(says?|asks?|exclaims?|replies|states|whispers?|shouts?|mutter(s|ing)?|sings?|responds?|voice)\b/i;
+
+let nextSegmentId = 0;
+
+function createSegment(section: PromptSection, text: string): PromptSegment {
+  return {id: `segment-${nextSegmentId++}`, section, text};
+}
+
+/**
+ * Splits text into sentences, treating a quotation as part of the sentence
+ * around it even when the quoted speech has its own full stops.
+ */
+function splitSentences(text: string): string[] {
+  const sentences: string[] = [];
+  let inQuote = false;
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    const next = text[i + 1];
+    if (ch === '"') {
+      inQuote = !inQuote;
+      // `...he said, "Not again!" The camera...` ends after the quote.
+      const endsSentence =
+        !inQuote &&
+        /[.!?]/.test(text[i - 1] ?? '') &&
+        /\s/.test(next ?? '') &&
+        /[A-Z]/.test(text.slice(i + 1).trimStart()[0] ?? '');
+      if (!endsSentence) continue;
+    } else if (inQuote || !/[.!?]/.test(ch) || (next && !/\s/.test(next))) {
+      continue;
+    }
+    sentences.push(text.slice(start, i + 1).trim());
+    start = i + 1;
+  }
+  const rest = text.slice(start).trim();
+  if (rest) sentences.push(rest);
+  return sentences.filter(Boolean);
+}
+
+function classify(sentence: string, index: number): PromptSection {
+  const quotes = sentence.match(/"[^"]*"/g) ?? [];
+  const spoken = quotes.some((q) => q.split(/\s+/).length >= 3);
+  if (spoken || (quotes.length > 0 && SPEECH_PATTERN.test(sentence))) {
+    return 'dialogue';
+  }
+  if (CAMERA_PATTERN.test(sentence)) return 'camera';
+  if (SOUND_PATTERN.test(sentence)) return 'sound';
+  return index === 0 ? 'setting' : 'action';
+}
+
+/**
+ * Parses a prompt into its style prefix and classified sentences. Unknown
+ * sentences are kept as `action`, so `buildPrompt(parsePrompt(text))` gives
+ * back the same text apart from whitespace.
+ */
+export function parsePrompt(text: string): StructuredPrompt {
+  let style = '';
+  let body = text.trim();
+  const colon = body.indexOf(':');
+  if (colon > 0) {
+    const prefix = body.slice(0, colon).trim();
+    if (
+      prefix.split(/\s+/).length <= MAX_STYLE_WORDS &&
+      !/[."]/.test(prefix)
+    ) {
+      style = prefix;
+      body = body.slice(colon + 1).trim();
+    }
+  }
+  const segments = splitSentences(body).map((sentence, i) =>
+    createSegment(classify(sentence, i), sentence),
+  );
+  return {style, segments};
+}
+
+/**
+ * Rebuilds the prompt text, dropping empty sentences.
+ */
+export function buildPrompt({style, segments}: StructuredPrompt): string {
+  const body = segments
+    .map((s) => s.text.trim())
+    .filter(Boolean)
+    .join(' ');
+  return style.trim() ? `${style.trim()}: ${body}` : body;
+}
+
+/**
+ * Adds a sentence to a section: after the section's last sentence, or where
+ * that kind of sentence usually goes if the section is empty.
+ */
+export function addSegment(
+  prompt: StructuredPrompt,
+  section: PromptSection,
+  text = '',
+): StructuredPrompt {
+  const segments = [...prompt.segments];
+  const segment = createSegment(section, text);
+  let last = -1;
+  segments.forEach((s, i) => {
+    if (s.section === section) last = i;
+  });
+  const index =
+    last >= 0 ? last + 1 : section === 'setting' ? 0 : segments.length;
+  segments.splice(index, 0, segment);
+  return {...prompt, segments};
+}
+
+/**
+ * Checks a prompt before it is submitted. Errors block generation; warnings
+ * are advice.
+ */
+export function validatePrompt(text: string): PromptIssue[] {
+  const issues: PromptIssue[] = [];
+  const trimmed = text.trim();
+  if (!trimmed) {
+    return [{severity: 'error', message: 'The prompt is empty.'}];
+  }
+  if (trimmed.length > MAX_PROMPT_LENGTH) {
+    issues.push({
+      severity: 'error',
+      message: `The prompt is ${trimmed.length} characters long; the limit is ${MAX_PROMPT_LENGTH}.`,
+    });
+  }
+  const quoteCount = (trimmed.match(/"/g) ?? []).length;
+  if (quoteCount % 2 !== 0) {
+    issues.push({
+      severity: 'error',
+      message: 'A line of dialogue is missing its closing quote (").',
+    });
+  }
+  const {segments} = parsePrompt(trimmed);
+  if (!segments.some((s) => s.section === 'camera')) {
+    issues.push({
+      severity: 'warning',
+      message: 'No camera direction; the model will choose its own framing.',
+    });
+  }
+  return issues;
+}
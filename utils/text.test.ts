@@ -0,0 +1,39 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {describe, expect, it} from 'vitest';
+import {stem, termsOf, tokenize} from './text';
+
+describe('stem', () => {
+  it('gives inflections of a word the same stem', () => {
+    const stems = ['dance', 'dances', 'danced', 'dancing'].map(stem);
+    expect(new Set(stems)).toEqual(new Set(['danc']));
+  });
+
+  it('undoes doubled consonants', () => {
+    expect(stem('running')).toBe(stem('run'));
+  });
+
+  it('leaves words that only look inflected', () => {
+    expect(stem('speed')).toBe('speed');
+    expect(stem('glass')).toBe('glass');
+    expect(stem('bus')).toBe('bus');
+  });
+});
+
+describe('tokenize', () => {
+  it('records where each word is', () => {
+    expect(tokenize("The cat's hat")).toEqual([
+      {word: 'the', term: 'the', start: 0, end: 3, position: 0},
+      {word: "cat's", term: 'cat', start: 4, end: 9, position: 1},
+      {word: 'hat', term: 'hat', start: 10, end: 13, position: 2},
+    ]);
+  });
+});
+
+describe('termsOf', () => {
+  it('drops stop words', () => {
+    expect(termsOf('A fox in the snow')).toEqual(['fox', 'snow']);
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/** A word of a text, with where it was found. */
+export interface Token {
+  /** The word, lowercased. */
+  word: string;
+  /** Its stem, which is what texts are matched on. */
+  term: string;
+  /** Offsets of the word in the text. */
+  start: number;
+  end: number;
+  /** Index of the word among all the words of the text. */
+  position: number;
+}
+
+/** Words too common to say anything about a text. */
+export const STOP_WORDS = new Set(
+  (
+    'a an and are as at be but by for from has have he her his in into is it ' +
+    'its of on or she that the their them then there they this to was were ' +
+    'while with'
+  ).split(' '),
+);
+
+const WORD_PATTERN = /[\p{L}\p{N}]+(?:'\p{L}+)?/gu;
+
+/** Stems of words seen so far; a catalog has a limited vocabulary. */
+const stemCache = new Map<string, string>();
+
+/** Longer suffixes first, so "-ingly" wins over "-ly". */
+const SUFFIXES = ['ingly', 'edly', 'ing', 'ed', 'ly'];
+
+/**
+ * Reduces a lowercased word to a stem shared by its inflections, e.g.
+ * "dancing", "dances" and "danced" all become "danc". A light version of
+ * Porter's first step, good enough to match prompts against queries.
+ */
+export function stem(word: string): string {
+  let w = word.replace(/'s$/, '');
+  if (w.length <= 3) return w;
+  if (w.endsWith('ies') && w.length > 4) {
+    w = w.slice(0, -3) + 'y';
+  } else if (w.endsWith('sses')) {
+    w = w.slice(0, -2);
+  } else if (w.endsWith('s') && !/(ss|us|is)$/.test(w)) {
+    w = w.slice(0, -1);
+  }
+  // "-ed" of "speed" or "need" is not a suffix.
+  const suffix = w.endsWith('eed')
+    ? undefined
+    : SUFFIXES.find((s) => w.endsWith(s) && w.length - s.length >= 3);
+  if (suffix) {
+    w = w.slice(0, -suffix.length);
+    // "running" -> "runn" -> "run"
+    if (/([^aeiouslz])\1$/.test(w)) w = w.slice(0, -1);
+  }
+  if (w.endsWith('e') && w.length > 4) w = w.slice(0, -1);
+  return w;
+}
+
+/** Splits `text` into its words, stop words included. */
+export function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  for (const match of text.matchAll(WORD_PATTERN)) {
+    const word = match[0].toLowerCase();
+    let term = stemCache.get(word);
+    if (term === undefined) {
+      term = stem(word);
+      stemCache.set(word, term);
+    }
+    tokens.push({
+      word,
+      term,
+      start: match.index!,
+      end: match.index! + match[0].length,
+      position: tokens.length,
+    });
+  }
+  return tokens;
+}
+
+/** The stems of the meaningful words of `text`, in order. */
+export function termsOf(text: string): string[] {
+  return tokenize(text)
+    .filter((t) => !STOP_WORDS.has(t.word))
+    .map((t) => t.term);
+}
@@ -0,0 +1,60 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {TranscriptSpeaker, TranscriptTurn} from '../types';
+
+let nextTurnId = 0;
+
+/**
+ * Adds a chunk of streamed transcription to the log. Chunks extend the open
+ * turn of the same speaker; a chunk from the other speaker closes it and
+ * starts a new turn at `videoTime`.
+ */
+export function appendTranscriptChunk(
+  turns: TranscriptTurn[],
+  speaker: TranscriptSpeaker,
+  text: string,
+  videoTime: number,
+): TranscriptTurn[] {
+  const last = turns[turns.length - 1];
+  if (last && !last.final && last.speaker === speaker) {
+    return [...turns.slice(0, -1), {...last, text: last.text + text}];
+  }
+  const closed = finalizeTranscript(turns);
+  return [
+    ...closed,
+    {
+      id: `turn-${nextTurnId++}`,
+      speaker,
+      text: text.trimStart(),
+      videoTime,
+      createdAt: Date.now(),
+      final: false,
+    },
+  ];
+}
+
+/**
+ * Adds a complete turn, such as a typed message, closing any open turn first.
+ */
+export function appendTranscriptTurn(
+  turns: TranscriptTurn[],
+  speaker: TranscriptSpeaker,
+  text: string,
+  videoTime: number,
+): TranscriptTurn[] {
+  return finalizeTranscript(
+    appendTranscriptChunk(finalizeTranscript(turns), speaker, text, videoTime),
+  );
+}
+
+/**
+ * Marks any open turn as complete, e.g. when the model finishes speaking or
+ * is interrupted.
+ */
+export function finalizeTranscript(turns: TranscriptTurn[]): TranscriptTurn[] {
+  const last = turns[turns.length - 1];
+  if (!last || last.final) return turns;
+  return [...turns.slice(0, -1), {...last, final: true}];
+}
@@ -0,0 +1,58 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// --- Hidden Video Element Helpers ---
+
+/**
+ * Loads `url` into a detached, muted video element and resolves once its
+ * first frame is available.
+ */
+export function loadVideoElement(url: string): Promise<HTMLVideoElement> {
+  return new Promise((resolve, reject) => {
+    const video = document.createElement('video');
+    // Needed to read pixels back from videos on another origin.
+    video.crossOrigin = 'anonymous';
+    video.muted = true;
+    video.playsInline = true;
+    video.preload = 'auto';
+    video.onloadeddata = () => resolve(video);
+    video.onerror = () => reject(new Error(`Could not load ${url}`));
+    video.src = url;
+  });
+}
+
+/** Seeks `video` and resolves once the frame at `time` can be drawn. */
+export function seekVideo(
+  video: HTMLVideoElement,
+  time: number,
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    video.onseeked = () => resolve();
+    video.onerror = () => reject(new Error('Seek failed'));
+    video.currentTime = time;
+  });
+}
+
+/**
+ * Captures the current frame as a JPEG data URL at most `width` pixels wide.
+ */
+export function captureFrameDataUrl(
+  video: HTMLVideoElement,
+  width: number,
+  quality = 0.6,
+): string {
+  const canvas = document.createElement('canvas');
+  const scale = Math.min(1, width / video.videoWidth);
+  canvas.width = Math.round(video.videoWidth * scale);
+  canvas.height = Math.round(video.videoHeight * scale);
+  canvas.getContext('2d')?.drawImage(video, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', quality);
+}
+
+/** Stops a hidden video from holding on to its media. */
+export function releaseVideoElement(video: HTMLVideoElement) {
+  video.removeAttribute('src');
+  video.load();
+}
@@ -0,0 +1,155 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {Video} from '../types';
+import {parsePrompt} from './promptStructure';
+import {formatDuration} from './time';
+
+/** The facts about a video that are read from its media. */
+export type MediaMetadata = Pick<
+  Video,
+  'duration' | 'width' | 'height' | 'hasAudio'
+>;
+
+/** Browser-specific ways of telling whether a video has a sound track. */
+type AudioAwareVideo = HTMLVideoElement & {
+  mozHasAudio?: boolean;
+  webkitAudioDecodedByteCount?: number;
+  audioTracks?: {length: number};
+};
+
+/** Style and genre words recognised in prompts, with the tag they give. */
+const STYLE_TAGS: [RegExp, string][] = [
+  [/\bstop[- ]motion\b/i, 'Stop Motion'],
+  [/\bclaymation\b/i, 'Claymation'],
+  [/\bfluffy characters?\b/i, 'Fluffy Characters'],
+  [/\banime\b/i, 'Anime'],
+  [/\b(film )?noir\b/i, 'Film Noir'],
+  [/\b3d animation\b/i, '3D Animation'],
+  [/\bwatercolou?r\b/i, 'Watercolor'],
+  [/\bdocumentary\b/i, 'Documentary'],
+  [/\bcinematic\b/i, 'Cinematic'],
+  [/\blive action\b/i, 'Live Action'],
+  [/\bcyberpunk\b/i, 'Cyberpunk'],
+  [/\b(sci-?fi|science fiction)\b/i, 'Sci-Fi'],
+];
+
+/**
+ * Derives style tags from a prompt's style prefix (e.g. "Claymation (Stop
+ * Motion):"), in the order they appear. A prefix with no known style words
+ * becomes a tag itself; prompts without a prefix are tagged from known style
+ * words in the text.
+ */
+export function deriveStyleTags(description: string): string[] {
+  const {style} = parsePrompt(description);
+  const source = style || description;
+  const tags = STYLE_TAGS.map(([pattern, tag]) => ({
+    tag,
+    index: source.search(pattern),
+  }))
+    .filter((match) => match.index >= 0)
+    .sort((a, b) => a.index - b.index)
+    .map((match) => match.tag);
+  return tags.length > 0 || !style ? tags : [style];
+}
+
+/**
+ * Fills in the metadata that follows from a video's prompt and creation
+ * date: its style tags and year. Values already set are kept.
+ */
+export function withDerivedMetadata(video: Video): Video {
+  return {
+    ...video,
+    tags: video.tags ?? deriveStyleTags(video.description),
+    year:
+      video.year ??
+      (video.createdAt ? new Date(video.createdAt).getFullYear() : undefined),
+  };
+}
+
+/** Seconds of `video` actually played (seeking doesn't count). */
+function playedSeconds(video: HTMLVideoElement): number {
+  let total = 0;
+  for (let i = 0; i < video.played.length; i++) {
+    total += video.played.end(i) - video.played.start(i);
+  }
+  return total;
+}
+
+/**
+ * Tells whether `video` has a sound track, or returns undefined when the
+ * browser can't say yet. Chrome only knows once audio has been decoded, so
+ * ask again after a second or so of playback.
+ */
+export function detectAudio(video: HTMLVideoElement): boolean | undefined {
+  const media = video as AudioAwareVideo;
+  if (typeof media.mozHasAudio === 'boolean') return media.mozHasAudio;
+  if (media.audioTracks) return media.audioTracks.length > 0;
+  const decoded = media.webkitAudioDecodedByteCount;
+  if (typeof decoded !== 'number') return undefined;
+  if (decoded > 0) return true;
+  return playedSeconds(video) > 1 ? false : undefined;
+}
+
+/** Reads what a loaded video element knows about its media. */
+export function readMediaMetadata(video: HTMLVideoElement): MediaMetadata {
+  return {
+    duration: Number.isFinite(video.duration) ? video.duration : undefined,
+    width: video.videoWidth || undefined,
+    height: video.videoHeight || undefined,
+    hasAudio: detectAudio(video),
+  };
+}
+
+/**
+ * The entries of `metadata` that are known and differ from `video`, or null
+ * if there are none.
+ */
+export function metadataChanges(
+  video: Video,
+  metadata: MediaMetadata,
+): MediaMetadata | null {
+  const changes: MediaMetadata = {};
+  (Object.keys(metadata) as (keyof MediaMetadata)[]).forEach((key) => {
+    const value = metadata[key];
+    if (value !== undefined && value !== video[key]) {
+      (changes as Record<string, unknown>)[key] = value;
+    }
+  });
+  return Object.keys(changes).length > 0 ? changes : null;
+}
+
+/**
+ * Labels a frame size by its shorter side, so portrait clips read the same
+ * as landscape ones: "4K", "1080p", "720p"...
+ */
+export function formatResolution(width: number, height: number): string {
+  const lines = Math.min(width, height);
+  if (lines >= 2160) return '4K';
+  return `${lines}p`;
+}
+
+/**
+ * Formats a video's known metadata for display, e.g. "720p", 2025,
+ * ["Claymation"], "8s". Unknown values are left out.
+ */
+export function describeVideoMetadata(video: Video): {
+  resolution?: string;
+  year?: number;
+  tags: string[];
+  duration?: string;
+  noAudio: boolean;
+} {
+  return {
+    resolution:
+      video.width && video.height
+        ? formatResolution(video.width, video.height)
+        : undefined,
+    year: video.year,
+    tags: video.tags ?? [],
+    duration:
+      video.duration !== undefined ? formatDuration(video.duration) : undefined,
+    noAudio: video.hasAudio === false,
+  };
+}
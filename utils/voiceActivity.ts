@@ -0,0 +1,42 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+interface VoiceActivityOptions {
+  /** RMS level, in [0, 1], above which a chunk counts as speech. */
+  threshold?: number;
+  /**
+   * How many quiet chunks to keep passing after speech, so word endings and
+   * short pauses aren't clipped.
+   */
+  hangoverChunks?: number;
+}
+
+/**
+ * Returns a stateful energy-based detector that reports whether each PCM16
+ * chunk should be treated as speech.
+ */
+export function createVoiceActivityDetector({
+  threshold = 0.015,
+  hangoverChunks = 3,
+}: VoiceActivityOptions = {}): (pcm: Int16Array) => boolean {
+  let hangover = 0;
+  return (pcm) => {
+    let sum = 0;
+    for (let i = 0; i < pcm.length; i++) {
+      const s = pcm[i] / 32768;
+      sum += s * s;
+    }
+    const rms = pcm.length > 0 ? Math.sqrt(sum / pcm.length) : 0;
+    if (rms >= threshold) {
+      hangover = hangoverChunks;
+      return true;
+    }
+    if (hangover > 0) {
+      hangover--;
+      return true;
+    }
+    return false;
+  };
+}
@@ -12,7 +12,12 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.COMPANION_TRANSPORT': JSON.stringify(env.COMPANION_TRANSPORT ?? ''),
+        'process.env.COMPANION_MOCK_URL': JSON.stringify(env.COMPANION_MOCK_URL ?? ''),
+        'process.env.COMPANION_MOCK_SCRIPT': JSON.stringify(env.COMPANION_MOCK_SCRIPT ?? ''),
+        'process.env.VIDEO_GENERATOR': JSON.stringify(env.VIDEO_GENERATOR ?? ''),
+        'process.env.VIDEO_STUB_OUTCOME': JSON.stringify(env.VIDEO_STUB_OUTCOME ?? '')
       },
       resolve: {
         alias: {